@@ -20,6 +20,29 @@ export class PhacetApi implements ICredentialType {
 			default: '',
 			required: true,
 		},
+		{
+			displayName: 'Base URL',
+			name: 'baseUrl',
+			type: 'string',
+			default: 'https://api.phacetlabs.com',
+			placeholder: 'https://api.phacetlabs.com',
+			description: 'Base URL of the Phacet API. Change it to target a staging, self-hosted or local Phacet instance.',
+		},
+		{
+			displayName: 'Max Retries',
+			name: 'maxRetries',
+			type: 'number',
+			typeOptions: { minValue: 0 },
+			default: 3,
+			description: 'How many times a request is retried when the API responds with one of the retry status codes. Set to 0 to disable retries.',
+		},
+		{
+			displayName: 'Retry on Status Codes',
+			name: 'retryStatusCodes',
+			type: 'string',
+			default: '429, 500, 502, 503, 504',
+			description: 'Comma-separated HTTP status codes that are retried with exponential backoff, honouring the Retry-After header',
+		},
 	];
 	authenticate: IAuthenticateGeneric = {
 		type: 'generic',
@@ -32,7 +55,7 @@ export class PhacetApi implements ICredentialType {
 
 	test: ICredentialTestRequest = {
 		request: {
-			baseURL: 'https://api.phacetlabs.com',
+			baseURL: '={{$credentials.baseUrl}}',
 			url: '/api/v1/phacets',
 			method: 'GET',
 		},
@@ -0,0 +1,801 @@
+import type {
+	IBinaryData,
+	IDataObject,
+	IExecuteFunctions,
+	IHookFunctions,
+	IHttpRequestMethods,
+	IHttpRequestOptions,
+	ILoadOptionsFunctions,
+	INodePropertyOptions,
+	IPollFunctions,
+	IWebhookFunctions,
+	JsonObject,
+} from 'n8n-workflow';
+
+import { NodeApiError, NodeOperationError, sleep } from 'n8n-workflow';
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const DEFAULT_BASE_URL = 'https://api.phacetlabs.com';
+
+// Maximum age (in seconds) accepted for a signed webhook delivery
+export const WEBHOOK_TIMESTAMP_TOLERANCE = 5 * 60;
+
+export interface PhacetColumn {
+	id: string;
+	columnName?: string;
+	type?: string;
+	options?: Array<string | { value: string; label?: string }>;
+	isCalculated?: boolean;
+}
+
+export interface PhacetCell {
+	id: string;
+	columnId: string;
+	value?: unknown;
+	status?: string;
+	error?: unknown;
+}
+
+export type CellValueType = string | number | boolean;
+
+export const FILE_TYPES: Record<string, { mimeType: string; name: string }> = {
+	csv: { mimeType: 'text/csv', name: 'CSV' },
+	jpeg: { mimeType: 'image/jpeg', name: 'JPEG' },
+	pdf: { mimeType: 'application/pdf', name: 'PDF' },
+	png: { mimeType: 'image/png', name: 'PNG' },
+	xlsx: {
+		mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+		name: 'Excel (XLSX)',
+	},
+};
+
+export type PhacetFunctions =
+	| IExecuteFunctions
+	| ILoadOptionsFunctions
+	| IHookFunctions
+	| IPollFunctions
+	| IWebhookFunctions;
+
+export async function getBaseUrl(this: PhacetFunctions): Promise<string> {
+	const credentials = await this.getCredentials('phacetApi');
+	const baseUrl = (credentials.baseUrl as string | undefined) || DEFAULT_BASE_URL;
+
+	return baseUrl.replace(/\/+$/, '');
+}
+
+export const DEFAULT_RETRY_STATUS_CODES = '429, 500, 502, 503, 504';
+
+// Backoff bounds (in milliseconds) between two attempts of a failed request
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 60 * 1000;
+
+export type PhacetRequestOptions = Omit<IHttpRequestOptions, 'url' | 'method'> & {
+	/** The request can be sent again without side effects, even if it is a POST */
+	idempotent?: boolean;
+	/** Builds the body for each attempt, so that a streamed body can be sent again */
+	getBody?: () => Promise<IHttpRequestOptions['body']>;
+};
+
+type RequestError = {
+	httpCode?: string | null;
+	response?: { status?: number; headers?: IDataObject };
+	cause?: RequestError;
+	errorResponse?: RequestError;
+};
+
+const getErrorStatus = (error: RequestError | undefined): number | undefined => {
+	const status = Number(error?.httpCode ?? error?.response?.status);
+
+	return Number.isInteger(status) && status > 0 ? status : undefined;
+};
+
+const getRetryAfter = (error: RequestError | undefined): number | undefined => {
+	const headers =
+		error?.response?.headers ??
+		error?.cause?.response?.headers ??
+		error?.errorResponse?.response?.headers;
+	const retryAfter = headers?.['retry-after'] ?? headers?.['Retry-After'];
+
+	if (retryAfter === undefined || retryAfter === null || retryAfter === '') {
+		return undefined;
+	}
+
+	// Either a number of seconds or an HTTP date
+	const seconds = Number(retryAfter);
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(String(retryAfter));
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Exponential backoff with jitter: the delay doubles with every attempt and a
+ * random half of it is dropped so concurrent requests do not retry in step.
+ */
+export const getRetryDelay = (attempt: number, retryAfter?: number): number => {
+	if (retryAfter !== undefined) {
+		return Math.min(retryAfter, RETRY_MAX_DELAY);
+	}
+
+	const delay = Math.min(RETRY_BASE_DELAY * 2 ** attempt, RETRY_MAX_DELAY);
+
+	return Math.round(delay / 2 + Math.random() * (delay / 2));
+};
+
+export const parseStatusCodes = (statusCodes: string): number[] =>
+	statusCodes
+		.split(',')
+		.map((code) => Number(code.trim()))
+		.filter((code) => Number.isInteger(code) && code > 0);
+
+const isStream = (body: unknown): boolean =>
+	typeof (body as { pipe?: unknown } | undefined)?.pipe === 'function';
+
+/**
+ * Sends an authenticated request to the Phacet API. Responses with one of the
+ * retry status codes set on the credential are retried with backoff. POSTs
+ * are only retried when marked idempotent or rejected with a 429. A stream can
+ * only be read once, so streamed bodies are only retried when they come from
+ * getBody, which opens a new stream for every attempt.
+ */
+export async function phacetApiRequest(
+	this: PhacetFunctions,
+	method: IHttpRequestMethods,
+	endpoint: string,
+	{ idempotent, getBody, ...options }: PhacetRequestOptions = {},
+) {
+	const credentials = await this.getCredentials('phacetApi');
+	const baseUrl = await getBaseUrl.call(this);
+	const maxRetries =
+		!getBody && isStream(options.body) ? 0 : ((credentials.maxRetries as number | undefined) ?? 3);
+	const retryStatusCodes = parseStatusCodes(
+		(credentials.retryStatusCodes as string | undefined) ?? DEFAULT_RETRY_STATUS_CODES,
+	);
+
+	for (let attempt = 0; ; attempt++) {
+		const body = getBody ? await getBody() : options.body;
+
+		try {
+			return await this.helpers.httpRequestWithAuthentication.call(this, 'phacetApi', {
+				...options,
+				...(getBody ? { body } : {}),
+				method,
+				url: `${baseUrl}${endpoint}`,
+			});
+		} catch (error) {
+			// Release the file handle of a stream that was not read to the end
+			if (getBody && isStream(body)) {
+				(body as { destroy?: () => void }).destroy?.();
+			}
+
+			const status = getErrorStatus(error as RequestError);
+			const canRetry =
+				attempt < maxRetries &&
+				status !== undefined &&
+				retryStatusCodes.includes(status) &&
+				(method !== 'POST' || idempotent === true || status === 429);
+
+			if (!canRetry) {
+				if (error instanceof NodeApiError) {
+					// eslint-disable-next-line @n8n/community-nodes/require-node-api-error
+					throw error;
+				}
+				throw new NodeApiError(this.getNode(), error as JsonObject);
+			}
+
+			const delay = getRetryDelay(attempt, getRetryAfter(error as RequestError));
+			this.logger.debug(
+				`Phacet API responded with ${status} to ${method} ${endpoint}, retrying in ${delay} ms (attempt ${attempt + 2} of ${maxRetries + 1})`,
+			);
+			await sleep(delay);
+		}
+	}
+}
+
+export const getColumnName = (column: PhacetColumn): string => column.columnName || column.id;
+
+/**
+ * Loads the columns of a table. Pass a cache to reuse the schema for the rest
+ * of the execution instead of fetching it for every item. The pending request
+ * is cached so that items processed concurrently share a single lookup.
+ */
+export async function getTableColumns(
+	this: PhacetFunctions,
+	tableId: string,
+	cache?: Map<string, Promise<PhacetColumn[]>>,
+): Promise<PhacetColumn[]> {
+	let columns = cache?.get(tableId);
+
+	if (!columns) {
+		columns = (async () => {
+			const response = await phacetApiRequest.call(this, 'GET', `/api/v2/tables/${tableId}`, {
+				headers: {
+					'Content-Type': 'application/json',
+				},
+			});
+
+			return response && Array.isArray(response.columns)
+				? (response.columns as PhacetColumn[])
+				: [];
+		})();
+		cache?.set(tableId, columns);
+		// A failed lookup is not cached, so the next item fetches the schema again
+		columns.catch(() => cache?.delete(tableId));
+	}
+
+	return await columns;
+}
+
+const startsWith = (header: Uint8Array, signature: number[]) =>
+	signature.every((byte, index) => header[index] === byte);
+
+/**
+ * Detects the type of a file from its first bytes. Formats without a
+ * signature of their own (XLSX is a ZIP archive, CSV is plain text) fall back
+ * on the binary's MIME type and, last, on the filename extension.
+ */
+export function detectFileType(
+	header: Uint8Array,
+	mimeType?: string,
+	filename?: string,
+): string | undefined {
+	if (startsWith(header, [0x25, 0x50, 0x44, 0x46])) {
+		return 'pdf';
+	}
+	if (startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+		return 'png';
+	}
+	if (startsWith(header, [0xff, 0xd8, 0xff])) {
+		return 'jpeg';
+	}
+
+	const extension = filename?.toLowerCase().split('.').pop();
+
+	if (startsWith(header, [0x50, 0x4b, 0x03, 0x04])) {
+		return mimeType === FILE_TYPES.xlsx.mimeType || extension === 'xlsx' ? 'xlsx' : undefined;
+	}
+
+	// CSV has no magic bytes, so only accept it when the content is not binary
+	const isText = !header.some((byte) => byte === 0);
+	if (isText && (mimeType === 'text/csv' || extension === 'csv')) {
+		return 'csv';
+	}
+
+	return undefined;
+}
+
+/**
+ * Builds the filename parameters of a multipart Content-Disposition header:
+ * an ASCII fallback with quotes and line breaks percent-encoded, plus an
+ * RFC 5987 `filename*` for names that are not plain ASCII.
+ */
+export function formatContentDispositionFilename(filename: string): string {
+	const fallback = filename
+		.replace(/[^\x20-\x7e]/g, '_')
+		.replace(/"/g, '%22')
+		.replace(/\\/g, '%5C');
+
+	if (fallback === filename) {
+		return `filename="${fallback}"`;
+	}
+
+	const encoded = encodeURIComponent(filename).replace(
+		/['()*]/g,
+		(char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+	);
+
+	return `filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+const parseNumber = (value: unknown): { value: number } | { error: string } => {
+	const invalid = { error: `expected a number, got "${String(value)}"` };
+
+	if (typeof value === 'number') {
+		return Number.isFinite(value) ? { value } : invalid;
+	}
+
+	// Accepts "1234.5", "1,234.50", "1 234,50", "1.234,50", "1.234.567" and "12,5".
+	// With both separators the last one is the decimal separator; with only one
+	// kind, a repeated separator groups thousands and a single one is decimal.
+	// A single separator followed by exactly three digits ("1,234") could be
+	// either, so it is rejected rather than guessed.
+	let text = String(value).replace(/[\s\u00a0\u202f'€$£%]/g, '');
+	const lastComma = text.lastIndexOf(',');
+	const lastDot = text.lastIndexOf('.');
+
+	if (lastComma !== -1 && lastDot !== -1) {
+		const decimal = lastComma > lastDot ? ',' : '.';
+		const thousands = decimal === ',' ? '.' : ',';
+		text = text.split(thousands).join('').replace(decimal, '.');
+	} else if (lastComma !== -1 || lastDot !== -1) {
+		const separator = lastComma !== -1 ? ',' : '.';
+		const parts = text.split(separator);
+
+		if (parts.length === 2 && /^\d{3}$/.test(parts[1]) && /[1-9]/.test(parts[0])) {
+			return {
+				error: `"${String(value)}" is ambiguous: the "${separator}" could separate thousands or decimals. Remove the thousands separator (1234) or add a decimal part (1,234.00)`,
+			};
+		}
+		text = parts.length > 2 ? parts.join('') : parts.join('.');
+	}
+
+	if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) {
+		return invalid;
+	}
+
+	return { value: Number(text) };
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const parseDate = (value: unknown): string | undefined => {
+	const pad = (part: number) => String(part).padStart(2, '0');
+	const toDate = (year: number, month: number, day: number) => {
+		const date = new Date(Date.UTC(year, month - 1, day));
+		if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+			return undefined;
+		}
+		return `${year}-${pad(month)}-${pad(day)}`;
+	};
+
+	// Dates are always returned as yyyy-mm-dd, whatever the input format, and
+	// keep the day as written: a time zone offset never shifts it to another day.
+	// A Date object has no written form, so its day in the local time zone is used.
+	if (value instanceof Date) {
+		return Number.isNaN(value.getTime())
+			? undefined
+			: toDate(value.getFullYear(), value.getMonth() + 1, value.getDate());
+	}
+
+	const text = String(value).trim();
+
+	// yyyy-mm-dd or yyyy/mm/dd, without a time part
+	let match = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(text);
+	if (match) {
+		return toDate(Number(match[1]), Number(match[2]), Number(match[3]));
+	}
+
+	// dd/mm/yyyy, dd-mm-yyyy or dd.mm.yyyy (day first)
+	match = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/.exec(text);
+	if (match) {
+		return toDate(Number(match[3]), Number(match[2]), Number(match[1]));
+	}
+
+	// ISO 8601 with a time part: the date as written, before any time zone shift
+	match = /^(\d{4})-(\d{2})-(\d{2})T/.exec(text);
+	if (match) {
+		return Number.isNaN(new Date(text).getTime())
+			? undefined
+			: toDate(Number(match[1]), Number(match[2]), Number(match[3]));
+	}
+
+	// RFC 2822 dates, such as "Wed, 31 Dec 2025 23:00:00 -0500"
+	match = /^[a-z]{3}, (\d{1,2}) ([a-z]{3}) (\d{4})\b/i.exec(text);
+	if (match) {
+		const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+		return month === 0 || Number.isNaN(new Date(text).getTime())
+			? undefined
+			: toDate(Number(match[3]), month, Number(match[1]));
+	}
+
+	return undefined;
+};
+
+const parseBoolean = (value: unknown): boolean | undefined => {
+	if (typeof value === 'boolean') {
+		return value;
+	}
+
+	const text = String(value).trim().toLowerCase();
+	if (['true', 'yes', 'y', '1'].includes(text)) {
+		return true;
+	}
+	if (['false', 'no', 'n', '0'].includes(text)) {
+		return false;
+	}
+
+	return undefined;
+};
+
+/**
+ * Converts an item value to the type of the column it is written to. Returns
+ * an error message instead when the value cannot be converted.
+ */
+export function convertCellValue(
+	column: PhacetColumn,
+	value: unknown,
+): { value: CellValueType } | { error: string } {
+	if (value === undefined || value === null || value === '') {
+		return { value: '' };
+	}
+
+	switch (column.type) {
+		case 'number':
+			return parseNumber(value);
+		case 'date': {
+			const date = parseDate(value);
+			return date === undefined
+				? { error: `expected a date such as 2025-12-31 or 31/12/2025, got "${String(value)}"` }
+				: { value: date };
+		}
+		case 'boolean': {
+			const boolean = parseBoolean(value);
+			return boolean === undefined
+				? { error: `expected true or false, got "${String(value)}"` }
+				: { value: boolean };
+		}
+		case 'select': {
+			const options = (column.options ?? []).map((option) =>
+				typeof option === 'string' ? { value: option, label: option } : option,
+			);
+			if (options.length === 0) {
+				return { value: String(value) };
+			}
+			const text = String(value).trim().toLowerCase();
+			const option = options.find(
+				(candidate) =>
+					candidate.value.toLowerCase() === text || candidate.label?.toLowerCase() === text,
+			);
+			return option
+				? { value: option.value }
+				: {
+						error: `"${String(value)}" is not one of the allowed options (${options
+							.map((candidate) => candidate.label ?? candidate.value)
+							.join(', ')})`,
+					};
+		}
+		default:
+			return { value: typeof value === 'object' ? JSON.stringify(value) : String(value) };
+	}
+}
+
+const getFilenameFromContentDisposition = (header?: string): string | undefined => {
+	if (!header) {
+		return undefined;
+	}
+
+	const encoded = /filename\*=UTF-8''([^;]+)/i.exec(header);
+	if (encoded) {
+		return decodeURIComponent(encoded[1]);
+	}
+
+	return /filename="?([^";]+)"?/i.exec(header)?.[1];
+};
+
+/**
+ * Downloads the file stored in a file cell through its temporary download URL
+ * and returns it as n8n binary data, keeping the original filename and MIME type.
+ */
+export async function downloadCellFile(
+	this: IExecuteFunctions | IWebhookFunctions,
+	tableId: string,
+	cellId: string,
+): Promise<IBinaryData> {
+	const download = (await phacetApiRequest.call(
+		this,
+		'GET',
+		`/api/v2/tables/${tableId}/cells/${cellId}/download-file-url`,
+	)) as IDataObject;
+
+	const url = (download.url ?? download.downloadUrl) as string | undefined;
+
+	if (!url) {
+		throw new NodeOperationError(this.getNode(), `No download URL was returned for cell ${cellId}`);
+	}
+
+	// The URL is pre-signed, so it is fetched without the Phacet credentials
+	const response = await this.helpers.httpRequest({
+		method: 'GET',
+		url,
+		encoding: 'stream',
+		returnFullResponse: true,
+	});
+
+	const headers = response.headers as Record<string, string | undefined>;
+	const filename =
+		((download.fileName ?? download.filename) as string | undefined) ??
+		getFilenameFromContentDisposition(headers['content-disposition']) ??
+		cellId;
+	const mimeType =
+		(download.mimeType as string | undefined) ?? headers['content-type']?.split(';')[0];
+
+	return await this.helpers.prepareBinaryData(response.body, filename, mimeType);
+}
+
+/**
+ * Returns the cells of a row that hold a file, based on the table's file
+ * columns. Pass `columnIds` to only keep some of those columns.
+ */
+export function getRowFileCells(
+	row: IDataObject,
+	columns: PhacetColumn[],
+	columnIds?: string[],
+): Array<{ cell: PhacetCell; column: PhacetColumn }> {
+	const cells = Array.isArray(row.cells) ? (row.cells as PhacetCell[]) : [];
+
+	return columns
+		.filter((column) => column.type === 'file')
+		.filter((column) => !columnIds?.length || columnIds.includes(column.id))
+		.flatMap((column) => {
+			const cell = cells.find((candidate) => candidate.columnId === column.id);
+			return cell?.id && cell.value ? [{ cell, column }] : [];
+		});
+}
+
+/**
+ * Flattens a row into `{ id, [column name]: value }` using the table schema.
+ * Cells of columns missing from the schema are keyed by column ID.
+ */
+export function simplifyRow(row: IDataObject, columns: PhacetColumn[]): IDataObject {
+	const cells = Array.isArray(row.cells) ? (row.cells as PhacetCell[]) : [];
+	const simplified: IDataObject = { id: row.id };
+
+	for (const cell of cells) {
+		const column = columns.find((candidate) => candidate.id === cell.columnId);
+		simplified[column ? getColumnName(column) : cell.columnId] = (cell.value ?? null) as IDataObject[string];
+	}
+
+	return simplified;
+}
+
+const getErrorMessage = (error: unknown): string | undefined => {
+	if (!error) {
+		return undefined;
+	}
+	if (typeof error === 'string') {
+		return error;
+	}
+	return ((error as { message?: string }).message ?? JSON.stringify(error)) || undefined;
+};
+
+/**
+ * Describes why a row calculation failed: the cells whose calculation failed,
+ * with their column and error message, and the ID of the failed run. Reads
+ * both the event payload and the row, as either may be missing.
+ */
+export function getCalculationFailure(
+	eventData: IDataObject,
+	row: IDataObject | undefined,
+	columns: PhacetColumn[],
+): IDataObject {
+	const cells = Array.isArray(row?.cells) ? (row.cells as PhacetCell[]) : [];
+
+	const failedColumns = cells
+		.filter((cell) => cell.status === 'failed' || !!cell.error)
+		.map((cell) => {
+			const column = columns.find((candidate) => candidate.id === cell.columnId);
+			return {
+				columnId: cell.columnId,
+				columnName: column ? getColumnName(column) : null,
+				error: getErrorMessage(cell.error) ?? null,
+			};
+		});
+
+	const errors = [
+		getErrorMessage(eventData.error),
+		getErrorMessage(row?.error),
+		...failedColumns.map((column) => column.error ?? undefined),
+	].filter((message): message is string => !!message);
+
+	return {
+		runId: eventData.runId ?? row?.runId ?? row?.lastRunId ?? null,
+		failedColumns,
+		errors: [...new Set(errors)],
+	};
+}
+
+export function isNotFoundError(error: {
+	httpCode?: string | null;
+	response?: { status?: number };
+}): boolean {
+	return error?.httpCode === '404' || error?.response?.status === 404;
+}
+
+/**
+ * Reads every page of a cursor-paginated list endpoint. The API answers with
+ * `{ data, nextCursor }`; a plain array response is treated as a single page.
+ * With a limit, paging stops as soon as that many items have been read.
+ */
+export async function phacetApiRequestAllItems(
+	this: PhacetFunctions,
+	endpoint: string,
+	qs: IDataObject = {},
+	limit?: number,
+): Promise<IDataObject[]> {
+	const results: IDataObject[] = [];
+	let cursor: string | undefined;
+
+	do {
+		const pageSize = limit === undefined ? 100 : Math.min(100, limit - results.length);
+		const response = await phacetApiRequest.call(this, 'GET', endpoint, {
+			qs: { limit: pageSize, ...qs, ...(cursor ? { cursor } : {}) },
+			headers: {
+				accept: 'application/json',
+			},
+		});
+
+		if (Array.isArray(response)) {
+			results.push(...(response as IDataObject[]));
+			break;
+		}
+
+		results.push(...((response?.data as IDataObject[] | undefined) ?? []));
+		cursor = response?.nextCursor as string | undefined;
+	} while (cursor && (limit === undefined || results.length < limit));
+
+	return limit === undefined ? results : results.slice(0, limit);
+}
+
+/**
+ * Reads the rows of a table changed after `since` (ISO date). Rows are listed
+ * by update date, newest first, so paging stops at the first older row instead
+ * of reading the whole table. With maxRows, no further page is read once that
+ * many rows have been collected.
+ */
+export async function getRowsChangedSince(
+	this: PhacetFunctions,
+	tableId: string,
+	since: string,
+	maxRows?: number,
+): Promise<IDataObject[]> {
+	const sinceTime = new Date(since).getTime();
+	const rows: IDataObject[] = [];
+	let cursor: string | undefined;
+
+	do {
+		const response = await phacetApiRequest.call(this, 'GET', `/api/v2/tables/${tableId}/rows`, {
+			qs: { limit: 100, sortBy: 'updatedAt', sortOrder: 'desc', ...(cursor ? { cursor } : {}) },
+			headers: {
+				accept: 'application/json',
+			},
+		});
+		const page = (Array.isArray(response) ? response : (response?.data ?? [])) as IDataObject[];
+
+		for (const row of page) {
+			const changedAt = new Date((row.updatedAt ?? row.createdAt) as string).getTime();
+
+			if (!(changedAt > sinceTime)) {
+				return rows;
+			}
+			rows.push(row);
+		}
+
+		cursor = Array.isArray(response) ? undefined : (response?.nextCursor as string | undefined);
+	} while (cursor && (maxRows === undefined || rows.length < maxRows));
+
+	return rows;
+}
+
+/**
+ * Works out which trigger events a row produced after `since` (ISO date): a
+ * creation date later than `since` means `row.created`, and a later update on a
+ * row whose calculation has finished means `row.calculation.completed` or
+ * `row.calculation.failed`. Pass `until` to ignore events after that date.
+ */
+export function getRowEvents(row: IDataObject, since: string, until?: string): string[] {
+	const sinceTime = new Date(since).getTime();
+	const untilTime = until ? new Date(until).getTime() : Infinity;
+	const isInRange = (date: unknown) => {
+		const time = date ? new Date(date as string).getTime() : NaN;
+		return time > sinceTime && time <= untilTime;
+	};
+	const events: string[] = [];
+
+	if (isInRange(row.createdAt)) {
+		events.push('row.created');
+	}
+
+	if (isInRange(row.updatedAt)) {
+		if (row.status === 'completed') {
+			events.push('row.calculation.completed');
+		} else if (row.status === 'failed') {
+			events.push('row.calculation.failed');
+		}
+	}
+
+	return events;
+}
+
+/**
+ * Lists the tables of every project, each with the ID and name of the project
+ * it belongs to.
+ */
+export async function getProjectTables(this: PhacetFunctions): Promise<IDataObject[]> {
+	const projectsResponse = await phacetApiRequest.call(this, 'GET', '/api/v2/projects', {
+		headers: {
+			'accept': 'application/json',
+		},
+	});
+
+	const allTables: IDataObject[] = [];
+
+	if (Array.isArray(projectsResponse)) {
+		projectsResponse.forEach((project: { id: string; name: string; tables: IDataObject[] }) => {
+			if (project.tables && Array.isArray(project.tables)) {
+				project.tables.forEach((table) => {
+					allTables.push({
+						...table,
+						projectId: project.id,
+						projectName: project.name,
+					});
+				});
+			}
+		});
+	}
+
+	return allTables;
+}
+
+export async function getTableSessions(this: PhacetFunctions, tableId: string): Promise<IDataObject[]> {
+	const tables = await getProjectTables.call(this);
+	const table = tables.find((candidate) => candidate.id === tableId);
+
+	return Array.isArray(table?.sessions) ? (table.sessions as IDataObject[]) : [];
+}
+
+export async function getPhacets(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+	const tables = await getProjectTables.call(this);
+
+	return tables
+		.map((table) => ({
+			name: table.name as string,
+			value: table.id as string,
+		}))
+		.sort((a: INodePropertyOptions, b: INodePropertyOptions) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Describes the columns of a table as node output. Calculated columns are
+ * filled in by Phacet; the other columns are inputs written with the row.
+ */
+export const describeColumns = (columns: PhacetColumn[]): IDataObject[] =>
+	columns.map((column) => ({
+		id: column.id,
+		name: getColumnName(column),
+		type: column.type,
+		kind: column.isCalculated ? 'calculated' : 'input',
+	}));
+
+/**
+ * Verifies a Svix-style webhook signature. The signed content is
+ * `${id}.${timestamp}.${rawBody}`, signed with HMAC-SHA256 using the base64
+ * decoded secret (without its `whsec_` prefix). The signature header may hold
+ * several space-separated `v1,<base64>` entries, any of which may match.
+ */
+export function verifyWebhookSignature(
+	secret: string,
+	headers: { id?: string; timestamp?: string; signature?: string },
+	rawBody: string,
+	nowInSeconds = Math.floor(Date.now() / 1000),
+): boolean {
+	const { id, timestamp, signature } = headers;
+
+	if (!id || !timestamp || !signature) {
+		return false;
+	}
+
+	const timestampInSeconds = Number(timestamp);
+	if (
+		!Number.isFinite(timestampInSeconds) ||
+		Math.abs(nowInSeconds - timestampInSeconds) > WEBHOOK_TIMESTAMP_TOLERANCE
+	) {
+		return false;
+	}
+
+	const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+	const expected = createHmac('sha256', key)
+		.update(`${id}.${timestamp}.${rawBody}`)
+		.digest();
+
+	return signature.split(' ').some((entry) => {
+		const [version, value] = entry.split(',');
+		if (version !== 'v1' || !value) {
+			return false;
+		}
+		const received = Buffer.from(value, 'base64');
+		return received.length === expected.length && timingSafeEqual(received, expected);
+	});
+}
@@ -1,66 +1,549 @@
 import type {
+	IBinaryKeyData,
+	IDataObject,
 	IExecuteFunctions,
 	ILoadOptionsFunctions,
 	INodeExecutionData,
+	INodeParameters,
 	INodePropertyOptions,
 	INodeType,
 	INodeTypeDescription,
 	JsonObject,
+	ResourceMapperFields,
+	ResourceMapperValue,
 } from 'n8n-workflow';
 
-import { NodeApiError, NodeConnectionTypes, NodeOperationError } from 'n8n-workflow';
+import { NodeApiError, NodeConnectionTypes, NodeOperationError, sleep } from 'n8n-workflow';
 
-declare const Buffer: {
-	from: (data: string | Uint8Array, encoding?: string) => Uint8Array;
-	concat: (buffers: Uint8Array[]) => Uint8Array;
+import { createHash } from 'crypto';
+
+import type { CellValueType, PhacetCell, PhacetColumn } from './GenericFunctions';
+import {
+	FILE_TYPES,
+	convertCellValue,
+	describeColumns,
+	detectFileType,
+	downloadCellFile,
+	formatContentDispositionFilename,
+	getColumnName,
+	getPhacets,
+	getProjectTables,
+	getRowFileCells,
+	getTableColumns,
+	getTableSessions,
+	isNotFoundError,
+	phacetApiRequest,
+	phacetApiRequestAllItems,
+	simplifyRow,
+} from './GenericFunctions';
+
+// Chunk size used when streaming a file from n8n's binary data storage
+const UPLOAD_CHUNK_SIZE = 256 * 1024;
+
+type BinaryStream = Awaited<ReturnType<IExecuteFunctions['helpers']['getBinaryStream']>>;
+
+/**
+ * Key sent with create and upload requests so that repeating a request returns
+ * the original row or file. Defaults to a hash of the execution ID, node name,
+ * run index and item index, which stays the same when the node retries the
+ * item but differs between the batches of a loop.
+ */
+const getIdempotencyKey = function (this: IExecuteFunctions, itemIndex: number): string {
+	const idempotencyKey = this.getNodeParameter('options.idempotencyKey', itemIndex, '') as string;
+
+	if (idempotencyKey) {
+		return idempotencyKey;
+	}
+
+	const { $runIndex } = this.getWorkflowDataProxy(itemIndex);
+
+	return createHash('sha256')
+		.update(`${this.getExecutionId()}:${this.getNode().name}:${$runIndex}:${itemIndex}`)
+		.digest('hex');
 };
 
 const uploadFile = async function (
 	this: IExecuteFunctions,
 	itemIndex: number,
 	binaryPropertyName: string,
+	idempotencyKey: string,
 	originalFilename?: string,
-): Promise<{ id: string; filename: string }> {
+): Promise<{ id: string; filename: string; size: number; type: string }> {
 	const binaryData = this.helpers.assertBinaryData(itemIndex, binaryPropertyName);
-	const filename = originalFilename || binaryData.fileName || 'file.pdf';
+	const allowedFileTypes = this.getNodeParameter(
+		'options.allowedFileTypes',
+		itemIndex,
+		Object.keys(FILE_TYPES),
+	) as string[];
+	const maxFileSize = this.getNodeParameter('options.maxFileSize', itemIndex, 0) as number;
+	const displayName = originalFilename || binaryData.fileName || binaryPropertyName;
+
+	// Files kept in n8n's binary data storage (filesystem or S3) are streamed;
+	// binary data held in memory is a base64 string, decoded once into the body
+	const inMemory = !binaryData.id;
+	let header: Uint8Array = Buffer.alloc(0);
+	let fileSize: number;
+
+	if (binaryData.id) {
+		({ fileSize } = await this.helpers.getBinaryMetadata(binaryData.id));
+		for await (const chunk of await this.helpers.getBinaryStream(binaryData.id, 16)) {
+			header = chunk as Uint8Array;
+			break;
+		}
+	} else {
+		// 24 base64 characters hold the first 18 bytes, enough for the signature
+		header = Buffer.from(binaryData.data.slice(0, 24), 'base64');
+		fileSize = Buffer.byteLength(binaryData.data, 'base64');
+	}
+
+	if (maxFileSize > 0 && fileSize > maxFileSize * 1024 * 1024) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`File "${displayName}" is ${(fileSize / 1024 / 1024).toFixed(1)} MB, which exceeds the maximum file size of ${maxFileSize} MB`,
+			{ itemIndex },
+		);
+	}
+
+	const fileType = detectFileType(
+		header.subarray(0, 16),
+		binaryData.mimeType,
+		originalFilename || binaryData.fileName,
+	);
 
-	if (!filename.toLowerCase().endsWith('.pdf')) {
+	if (!fileType || !allowedFileTypes.includes(fileType)) {
 		throw new NodeOperationError(
 			this.getNode(),
-			`Only PDF files are supported. File "${filename}" is not a PDF.`,
+			`File "${displayName}" is not an allowed file type. Allowed types: ${allowedFileTypes
+				.map((type) => FILE_TYPES[type]?.name ?? type)
+				.join(', ')}.`,
 			{ itemIndex },
 		);
 	}
 
-	const buffer = await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+	const filename = originalFilename || binaryData.fileName || `file.${fileType === 'jpeg' ? 'jpg' : fileType}`;
 
 	const boundary = `----formdata-n8n-${Math.random().toString(16)}`;
 	const CRLF = '\r\n';
 
-	const parts: Uint8Array[] = [];
+	const preamble = Buffer.from(
+		`--${boundary}${CRLF}` +
+			`Content-Disposition: form-data; name="file"; ${formatContentDispositionFilename(filename)}${CRLF}` +
+			`Content-Type: ${FILE_TYPES[fileType].mimeType}${CRLF}${CRLF}`,
+	);
+	const epilogue = Buffer.from(`${CRLF}--${boundary}--${CRLF}`);
+
+	let body: Buffer | undefined;
+	let getBody: (() => Promise<BinaryStream>) | undefined;
+
+	if (inMemory) {
+		// The file is decoded straight between the multipart preamble and epilogue,
+		// so the upload holds a single copy of it
+		body = Buffer.allocUnsafe(preamble.length + fileSize + epilogue.length);
+		preamble.copy(body);
+		fileSize = body.write(binaryData.data, preamble.length, 'base64');
+		epilogue.copy(body, preamble.length + fileSize);
+		body = body.subarray(0, preamble.length + fileSize + epilogue.length);
+	} else {
+		const logger = this.logger;
+
+		// The stream is opened again for every attempt, so a rate-limited upload
+		// can be retried like any other request
+		getBody = async () => {
+			const fileStream = await this.helpers.getBinaryStream(binaryData.id as string, UPLOAD_CHUNK_SIZE);
 
-	parts.push(Buffer.from(`--${boundary}${CRLF}`));
-	parts.push(Buffer.from(`Content-Disposition: form-data; name="file"; filename="${filename}"${CRLF}`));
-	parts.push(Buffer.from(`Content-Type: application/pdf${CRLF}${CRLF}`));
-	parts.push(buffer);
-	parts.push(Buffer.from(`${CRLF}--${boundary}--${CRLF}`));
+			const multipartBody = async function* () {
+				yield preamble;
+
+				let sent = 0;
+				let nextProgressLog = 10;
+
+				for await (const chunk of fileStream) {
+					sent += (chunk as Uint8Array).length;
+					yield chunk as Uint8Array;
+
+					const progress = Math.floor((sent / fileSize) * 100);
+					if (progress >= nextProgressLog) {
+						logger.debug(`Uploading "${filename}" to Phacet: ${progress}% (${sent} of ${fileSize} bytes)`);
+						nextProgressLog = progress - (progress % 10) + 10;
+					}
+				}
 
-	const bodyBuffer = Buffer.concat(parts);
+				yield epilogue;
+			};
+
+			// Community nodes cannot import 'stream', so the multipart body is built
+			// with the Readable implementation the binary data stream comes from
+			const ReadableFactory = fileStream.constructor as unknown as {
+				from: (iterable: AsyncIterable<Uint8Array>) => BinaryStream;
+			};
+			return ReadableFactory.from(multipartBody());
+		};
+	}
+
+	this.logger.debug(`Uploading "${filename}" to Phacet (${fileSize} bytes)`);
+
+	const uploadResponse = await phacetApiRequest.call(this, 'POST', '/api/v2/files', {
+		body,
+		getBody,
+		headers: {
+			'Content-Type': `multipart/form-data; boundary=${boundary}`,
+			'Content-Length': String(preamble.length + fileSize + epilogue.length),
+			'Idempotency-Key': idempotencyKey,
+		},
+		idempotent: true,
+	});
+
+	return { id: uploadResponse.id, filename, size: fileSize, type: fileType };
+};
+
+type CellValue = {
+	columnId: string;
+	value?: CellValueType;
+	type?: 'text' | 'file' | 'fileId';
+	binaryProperty?: string;
+	fileId?: string;
+	originalFilename?: string;
+};
 
-	const uploadResponse = await this.helpers.httpRequestWithAuthentication.call(
+/**
+ * Converts every cell value to its column's type and only then uploads the
+ * files, so an invalid value fails the item before anything is sent.
+ */
+const processCells = async function (
+	this: IExecuteFunctions,
+	itemIndex: number,
+	cellValues: CellValue[],
+	columns: PhacetColumn[],
+): Promise<Array<{ columnId: string; value: CellValueType }>> {
+	const processedCells: Array<{ columnId: string; value: CellValueType }> = [];
+
+	for (const cell of cellValues) {
+		const column = columns.find((candidate) => candidate.id === cell.columnId);
+
+		if (cell.type === 'file' || cell.type === 'fileId') {
+			if (cell.type === 'file' && !cell.binaryProperty) {
+				throw new NodeOperationError(
+					this.getNode(),
+					'Binary property is required for file cells',
+					{ itemIndex },
+				);
+			}
+			if (cell.type === 'fileId' && !cell.fileId) {
+				throw new NodeOperationError(this.getNode(), 'File ID is required for file ID cells', {
+					itemIndex,
+				});
+			}
+			if (column?.type && column.type !== 'file') {
+				throw new NodeOperationError(
+					this.getNode(),
+					`Column "${getColumnName(column)}" is a ${column.type} column and cannot hold a file (item ${itemIndex})`,
+					{ itemIndex },
+				);
+			}
+			// Files uploaded beforehand are referenced by their ID as is
+			if (cell.type === 'fileId') {
+				processedCells.push({ columnId: cell.columnId, value: String(cell.fileId).trim() });
+			}
+			continue;
+		}
+
+		const converted = column ? convertCellValue(column, cell.value) : { value: cell.value ?? '' };
+
+		if ('error' in converted) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Invalid value for column "${getColumnName(column as PhacetColumn)}" in item ${itemIndex}: ${converted.error}`,
+				{ itemIndex },
+			);
+		}
+
+		processedCells.push({
+			columnId: cell.columnId,
+			value: converted.value,
+		});
+	}
+
+	const idempotencyKey = getIdempotencyKey.call(this, itemIndex);
+
+	for (const cell of cellValues) {
+		if (cell.type !== 'file') {
+			continue;
+		}
+		// One key per file cell, so each upload of the item is deduplicated on its own
+		const { id: fileId } = await uploadFile.call(
+			this,
+			itemIndex,
+			cell.binaryProperty as string,
+			`${idempotencyKey}:${cell.columnId}`,
+			cell.originalFilename,
+		);
+		processedCells.push({
+			columnId: cell.columnId,
+			value: fileId,
+		});
+	}
+
+	return processedCells;
+};
+
+const isFinishedStatus = (status: unknown) => status === 'completed' || status === 'failed';
+
+const getTime = (date: unknown) => (date ? new Date(date as string).getTime() : NaN);
+
+/**
+ * Polls a row until its calculation has completed or failed and returns the
+ * final row. Fails the item once the configured timeout is reached.
+ *
+ * After an update, pass the update response as `updateResponse`: the row keeps
+ * the status of its previous run until the new one starts, so a finished status
+ * is only accepted once the row was seen in progress, or when its run ID or
+ * update date is newer than in the update response.
+ */
+const waitForRowCalculation = async function (
+	this: IExecuteFunctions,
+	itemIndex: number,
+	tableId: string,
+	rowId: string,
+	updateResponse?: IDataObject,
+): Promise<IDataObject> {
+	const timeout = this.getNodeParameter('options.calculationTimeout', itemIndex, 300) as number;
+	const pollInterval = this.getNodeParameter('options.pollInterval', itemIndex, 5) as number;
+	const deadline = Date.now() + timeout * 1000;
+
+	let runStarted =
+		!updateResponse ||
+		(updateResponse.status !== undefined && !isFinishedStatus(updateResponse.status));
+
+	while (true) {
+		const row = (await phacetApiRequest.call(
+			this,
+			'GET',
+			`/api/v2/tables/${tableId}/rows/${rowId}`,
+		)) as IDataObject;
+
+		if (row.status !== undefined && !isFinishedStatus(row.status)) {
+			runStarted = true;
+		}
+
+		const isNewRun =
+			runStarted ||
+			(row.runId !== undefined &&
+				updateResponse?.runId !== undefined &&
+				row.runId !== updateResponse.runId) ||
+			getTime(row.updatedAt) > getTime(updateResponse?.updatedAt);
+
+		if (isFinishedStatus(row.status) && isNewRun) {
+			return row;
+		}
+
+		if (Date.now() + pollInterval * 1000 > deadline) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`The calculation of row ${rowId} did not finish within ${timeout} seconds`,
+				{ itemIndex },
+			);
+		}
+
+		await sleep(pollInterval * 1000);
+	}
+};
+
+/**
+ * Returns the ID of the session a row is written to: the selected session, or
+ * the session with the given name, created when missing if enabled. Lookups are
+ * cached per name so that items created concurrently share a single session.
+ */
+const getSessionId = async function (
+	this: IExecuteFunctions,
+	itemIndex: number,
+	tableId: string,
+	sessionsCache: Map<string, Promise<string | undefined>>,
+): Promise<string> {
+	const sessionSelection = this.getNodeParameter('sessionSelection', itemIndex, 'id') as string;
+
+	if (sessionSelection !== 'name') {
+		const sessionId = this.getNodeParameter('sessionId', itemIndex) as string;
+
+		if (!sessionId) {
+			throw new NodeOperationError(this.getNode(), 'Session ID is required', { itemIndex });
+		}
+		return sessionId;
+	}
+
+	const sessionName = (this.getNodeParameter('sessionName', itemIndex) as string).trim();
+	const createIfMissing = this.getNodeParameter('createSessionIfMissing', itemIndex, true) as boolean;
+
+	if (!sessionName) {
+		throw new NodeOperationError(this.getNode(), 'Session Name is required', { itemIndex });
+	}
+
+	const cacheKey = `${tableId}:${createIfMissing}:${sessionName}`;
+	let sessionId = sessionsCache.get(cacheKey);
+
+	if (!sessionId) {
+		sessionId = (async () => {
+			const sessions = await getTableSessions.call(this, tableId);
+			const existingSession = sessions.find((session) => session.name === sessionName);
+
+			if (existingSession || !createIfMissing) {
+				return existingSession?.id as string | undefined;
+			}
+
+			const createdSession = await phacetApiRequest.call(
+				this,
+				'POST',
+				`/api/v2/tables/${tableId}/sessions`,
+				{
+					body: { name: sessionName },
+					headers: {
+						'Content-Type': 'application/json',
+					},
+				},
+			);
+
+			return createdSession.id as string;
+		})();
+		sessionsCache.set(cacheKey, sessionId);
+		// A failed lookup is not cached, so the next item looks the session up again
+		sessionId.catch(() => sessionsCache.delete(cacheKey));
+	}
+
+	const resolvedSessionId = await sessionId;
+
+	if (!resolvedSessionId) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`No session named "${sessionName}" exists in the table`,
+			{ itemIndex, description: 'Enable "Create Session If Missing" to create it automatically' },
+		);
+	}
+
+	return resolvedSessionId;
+};
+
+const createRow = async function (
+	this: IExecuteFunctions,
+	itemIndex: number,
+	columnsCache: Map<string, Promise<PhacetColumn[]>>,
+	sessionsCache: Map<string, Promise<string | undefined>>,
+): Promise<IDataObject> {
+	const tableId = this.getNodeParameter('tableId', itemIndex) as string;
+
+	if (!tableId) {
+		throw new NodeOperationError(this.getNode(), 'Table ID is required', { itemIndex });
+	}
+	const sessionId = await getSessionId.call(this, itemIndex, tableId, sessionsCache);
+	const cellValues = await getCellValues.call(this, itemIndex, tableId, columnsCache);
+
+	if (cellValues.length === 0) {
+		throw new NodeOperationError(this.getNode(), 'At least one cell is required', { itemIndex });
+	}
+
+	const processedCells = await processCells.call(
+		this,
+		itemIndex,
+		cellValues,
+		await getTableColumns.call(this, tableId, columnsCache),
+	);
+
+	const requestBody = {
+		sessionId,
+		cells: processedCells,
+	};
+
+	const responseData = await phacetApiRequest.call(
 		this,
-		'phacetApi',
+		'POST',
+		`/api/v2/tables/${tableId}/rows`,
 		{
-			method: 'POST',
-			url: 'https://api.phacetlabs.com/api/v2/files',
-			body: bodyBuffer,
+			body: requestBody,
 			headers: {
-				'Content-Type': `multipart/form-data; boundary=${boundary}`,
+				'Content-Type': 'application/json',
+				'Idempotency-Key': getIdempotencyKey.call(this, itemIndex),
 			},
+			idempotent: true,
 		},
 	);
 
-	return { id: uploadResponse.id, filename };
+	const waitForCalculation = this.getNodeParameter('options.waitForCalculation', itemIndex, false) as boolean;
+
+	return waitForCalculation
+		? await waitForRowCalculation.call(this, itemIndex, tableId, responseData.id)
+		: { ...responseData };
+};
+
+// Failed rows get their own output when waiting for the calculation with routing enabled
+const configuredOutputs = (parameters: INodeParameters) => {
+	const options = (parameters.options ?? {}) as { waitForCalculation?: boolean; routeFailedRows?: boolean };
+
+	if (options.waitForCalculation && options.routeFailedRows) {
+		return [
+			{ type: 'main', displayName: 'Completed' },
+			{ type: 'main', displayName: 'Failed' },
+		];
+	}
+
+	return [{ type: 'main' }];
+};
+
+/**
+ * Returns the cells to write for an item. Version 1 nodes use the Cells
+ * collection; later versions map values by column name with the resource
+ * mapper, where file columns take the name of a binary property.
+ */
+const getCellValues = async function (
+	this: IExecuteFunctions,
+	itemIndex: number,
+	tableId: string,
+	columnsCache: Map<string, Promise<PhacetColumn[]>>,
+): Promise<CellValue[]> {
+	if (this.getNode().typeVersion < 2) {
+		const cells = this.getNodeParameter('cells', itemIndex) as { cellValues?: CellValue[] };
+		return cells.cellValues ?? [];
+	}
+
+	const columns = await getTableColumns.call(this, tableId, columnsCache);
+
+	const mapping = this.getNodeParameter('columns', itemIndex) as ResourceMapperValue;
+	const values: IDataObject =
+		mapping.mappingMode === 'autoMapInputData'
+			? this.getInputData()[itemIndex].json
+			: (mapping.value ?? {});
+
+	const fileCellValues = this.getNodeParameter('options.fileCellValues', itemIndex, 'binary') as string;
+	const cellValues: CellValue[] = [];
+
+	for (const column of columns) {
+		const value = values[getColumnName(column)];
+
+		if (value === undefined || value === null) {
+			continue;
+		}
+
+		// A file column takes the name of a binary property of the item, or the ID
+		// of a file already uploaded to Phacet when the option says so
+		if (column.type === 'file') {
+			if (fileCellValues === 'fileId') {
+				cellValues.push({ columnId: column.id, type: 'fileId', fileId: String(value) });
+				continue;
+			}
+			if (this.getInputData()[itemIndex].binary?.[String(value)] === undefined) {
+				throw new NodeOperationError(
+					this.getNode(),
+					`Column "${getColumnName(column)}" expects a binary property name, but item ${itemIndex} has no binary property "${String(value)}"`,
+					{
+						itemIndex,
+						description: 'To reference files already uploaded to Phacet, set the File Cell Values option to File IDs',
+					},
+				);
+			}
+			cellValues.push({ columnId: column.id, type: 'file', binaryProperty: String(value) });
+		} else {
+			cellValues.push({ columnId: column.id, type: 'text', value: value as CellValueType });
+		}
+	}
+
+	return cellValues;
 };
 
 export class Phacet implements INodeType {
@@ -70,14 +553,14 @@ export class Phacet implements INodeType {
 		name: 'phacet',
 		icon: 'file:phacet.svg',
 		group: ['transform'],
-		version: 1,
+		version: [1, 2],
 		subtitle: '={{$parameter["operation"] + ": " + $parameter["resource"]}}',
 		description: 'Interact with Phacet API to manage spreadsheet data',
 		defaults: {
 			name: 'Phacet',
 		},
 		inputs: [NodeConnectionTypes.Main],
-		outputs: [NodeConnectionTypes.Main],
+		outputs: `={{(${configuredOutputs})($parameter)}}`,
 		credentials: [
 			{
 				name: 'phacetApi',
@@ -91,13 +574,216 @@ export class Phacet implements INodeType {
 				type: 'options',
 				noDataExpression: true,
 				options: [
+					{
+						name: 'File',
+						value: 'file',
+					},
 					{
 						name: 'Row',
 						value: 'row',
 					},
+					{
+						name: 'Session',
+						value: 'session',
+					},
+					{
+						name: 'Table',
+						value: 'table',
+					},
 				],
 				default: 'row',
 			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['file'],
+					},
+				},
+				options: [
+					{
+						name: 'Get Metadata',
+						value: 'getMetadata',
+						description: 'Retrieve the metadata of an uploaded file',
+						action: 'Get file metadata',
+					},
+					{
+						name: 'Upload',
+						value: 'upload',
+						description: 'Upload a file once and reuse its ID in file cells of several rows',
+						action: 'Upload a file',
+					},
+				],
+				default: 'upload',
+			},
+			{
+				displayName: 'Input Binary Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['upload'],
+					},
+				},
+				default: 'data',
+				description: 'Name of the binary property containing the file',
+			},
+			{
+				displayName: 'File ID',
+				name: 'fileId',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['getMetadata'],
+					},
+				},
+				default: '',
+				description: 'ID of the file, as returned by the Upload operation',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['session'],
+					},
+				},
+				options: [
+					{
+						name: 'Create',
+						value: 'create',
+						description: 'Create a new session in a table',
+						action: 'Create a session',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Retrieve a session by its ID',
+						action: 'Get a session',
+					},
+					{
+						name: 'Get Many',
+						value: 'getAll',
+						description: 'Retrieve the sessions of a table',
+						action: 'Get many sessions',
+					},
+				],
+				default: 'getAll',
+			},
+			{
+				displayName: 'Table Name or ID',
+				name: 'tableId',
+				type: 'options',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['session'],
+					},
+				},
+				default: '',
+				typeOptions: {
+					loadOptionsMethod: 'getPhacets',
+				},
+				description: 'Select the table the sessions belong to. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Session Name or ID',
+				name: 'sessionId',
+				type: 'options',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['session'],
+						operation: ['get'],
+					},
+				},
+				default: '',
+				typeOptions: {
+					loadOptionsMethod: 'getSessions',
+					loadOptionsDependsOn: ['tableId'],
+				},
+				description: 'Select the session to retrieve. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Name',
+				name: 'sessionName',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['session'],
+						operation: ['create'],
+					},
+				},
+				default: '',
+				placeholder: "e.g. {{ $now.toFormat('yyyy-MM') }}",
+				description: 'Name of the new session',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['table'],
+					},
+				},
+				options: [
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Retrieve a table and its columns',
+						action: 'Get a table',
+					},
+					{
+						name: 'Get Many',
+						value: 'getAll',
+						description: 'Retrieve the tables of every project',
+						action: 'Get many tables',
+					},
+				],
+				default: 'getAll',
+			},
+			{
+				displayName: 'Table Name or ID',
+				name: 'tableId',
+				type: 'options',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['table'],
+						operation: ['get'],
+					},
+				},
+				default: '',
+				typeOptions: {
+					loadOptionsMethod: 'getPhacets',
+				},
+				description: 'Select the table to retrieve. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Include Columns',
+				name: 'includeColumns',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['table'],
+						operation: ['getAll'],
+					},
+				},
+				default: false,
+				description: 'Whether to load the columns of each table. This makes one extra request per table.',
+			},
 			{
 				displayName: 'Operation',
 				name: 'operation',
@@ -116,10 +802,22 @@ export class Phacet implements INodeType {
 						action: 'Create a row',
 					},
 					{
-						name: 'Update',
-						value: 'update',
-						description: 'Updates an existing row in a specific table with new cell values',
-						action: 'Update a row',
+						name: 'Create or Update',
+						value: 'upsert',
+						description: 'Create a new record, or update the current one if it already exists (upsert)',
+						action: 'Create or update a row',
+					},
+					{
+						name: 'Delete',
+						value: 'delete',
+						description: 'Delete one or more rows from a specific table',
+						action: 'Delete a row',
+					},
+					{
+						name: 'Download File',
+						value: 'downloadFile',
+						description: 'Download the file stored in a file cell, or every file of a row, as binary data',
+						action: 'Download a file',
 					},
 					{
 						name: 'Get',
@@ -133,6 +831,18 @@ export class Phacet implements INodeType {
 						description: 'Gets a temporary download URL for a file stored in a file-type column',
 						action: 'Get a cell download URL',
 					},
+					{
+						name: 'Get Many',
+						value: 'getAll',
+						description: 'Retrieve many rows from a specific table',
+						action: 'Get many rows',
+					},
+					{
+						name: 'Update',
+						value: 'update',
+						description: 'Updates an existing row in a specific table with new cell values',
+						action: 'Update a row',
+					},
 				],
 				default: 'create',
 			},
@@ -144,7 +854,7 @@ export class Phacet implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['row'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 					},
 				},
 				default: '',
@@ -153,6 +863,31 @@ export class Phacet implements INodeType {
 				},
 				description: 'Select the table where the row will be created. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
+			{
+				displayName: 'Select Session',
+				name: 'sessionSelection',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['row'],
+						operation: ['create', 'upsert'],
+					},
+				},
+				options: [
+					{
+						name: 'By Name',
+						value: 'name',
+						description: 'Use the session with a given name, for example one built with an expression for each period',
+					},
+					{
+						name: 'From List or ID',
+						value: 'id',
+						description: 'Select an existing session',
+					},
+				],
+				default: 'id',
+			},
 			{
 				displayName: 'Session Name or ID',
 				name: 'sessionId',
@@ -161,7 +896,8 @@ export class Phacet implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['row'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
+						sessionSelection: ['id'],
 					},
 				},
 				default: '',
@@ -171,6 +907,54 @@ export class Phacet implements INodeType {
 				},
 				description: 'Select the session within the table. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
+			{
+				displayName: 'Session Name',
+				name: 'sessionName',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['row'],
+						operation: ['create', 'upsert'],
+						sessionSelection: ['name'],
+					},
+				},
+				default: '',
+				placeholder: "e.g. {{ $now.toFormat('yyyy-MM') }}",
+				description: 'Name of the session within the table',
+			},
+			{
+				displayName: 'Create Session If Missing',
+				name: 'createSessionIfMissing',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['row'],
+						operation: ['create', 'upsert'],
+						sessionSelection: ['name'],
+					},
+				},
+				default: true,
+				description: 'Whether to create the session when the table has no session with this name',
+			},
+			{
+				displayName: 'Key Column Name or ID',
+				name: 'keyColumnId',
+				type: 'options',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['row'],
+						operation: ['upsert'],
+					},
+				},
+				default: '',
+				typeOptions: {
+					loadOptionsMethod: 'getColumns',
+					loadOptionsDependsOn: ['tableId'],
+				},
+				description: 'Column used to find an existing row in the session. Its value is taken from the matching cell below. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
 			{
 				displayName: 'Cells',
 				name: 'cells',
@@ -178,7 +962,8 @@ export class Phacet implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['row'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
+						'@version': [1],
 					},
 				},
 				default: {},
@@ -204,6 +989,18 @@ export class Phacet implements INodeType {
 								},
 								description: 'Select the column for this cell. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 							},
+							{
+								displayName: 'File ID',
+								name: 'fileId',
+								type: 'string',
+								default: '',
+								displayOptions: {
+									show: {
+										type: ['fileId'],
+									},
+								},
+								description: 'ID of a file already uploaded to Phacet, for example with the File > Upload operation',
+							},
 							{
 								displayName: 'Input Binary Field',
 								name: 'binaryProperty',
@@ -214,7 +1011,7 @@ export class Phacet implements INodeType {
 										type: ['file'],
 									},
 								},
-								description: 'Name of the binary property containing the PDF file',
+								description: 'Name of the binary property containing the file',
 							},
 							{
 								displayName: 'Original Filename',
@@ -235,6 +1032,7 @@ export class Phacet implements INodeType {
 								options: [
 									{ name: 'Text', value: 'text' },
 									{ name: 'File', value: 'file' },
+									{ name: 'File ID', value: 'fileId' },
 								],
 								default: 'text',
 							},
@@ -248,7 +1046,7 @@ export class Phacet implements INodeType {
 										type: ['text'],
 									},
 								},
-								description: 'The cell value. For text columns: enter text.',
+								description: 'The cell value. It is converted to the column type (number, date, boolean or select option) and validated before the row is sent.',
 								placeholder: 'Text value',
 							},
 						],
@@ -263,7 +1061,7 @@ export class Phacet implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['row'],
-						operation: ['get', 'update', 'getCellDownloadUrl'],
+						operation: ['get', 'getAll', 'update', 'delete', 'getCellDownloadUrl', 'downloadFile'],
 					},
 				},
 				default: '',
@@ -280,12 +1078,25 @@ export class Phacet implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['row'],
-						operation: ['get', 'update'],
+						operation: ['get', 'update', 'delete'],
 					},
 				},
 				default: '',
 				description: 'ID of the row to retrieve',
 			},
+			{
+				displayName: 'Additional Row IDs',
+				name: 'additionalRowIds',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['row'],
+						operation: ['delete'],
+					},
+				},
+				default: '',
+				description: 'Other rows to delete for this item, as a comma-separated list or an array expression',
+			},
 			{
 				displayName: 'Cell ID',
 				name: 'cellId',
@@ -300,6 +1111,76 @@ export class Phacet implements INodeType {
 				default: '',
 				description: 'ID of the cell containing the file. You can get cell IDs from the response of a "Get Row" operation.',
 			},
+			{
+				displayName: 'Download',
+				name: 'downloadMode',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['row'],
+						operation: ['downloadFile'],
+					},
+				},
+				options: [
+					{
+						name: 'All Files of a Row',
+						value: 'row',
+						description: 'Download the files of every file column of a row',
+					},
+					{
+						name: 'Single Cell',
+						value: 'cell',
+						description: 'Download the file stored in one cell',
+					},
+				],
+				default: 'cell',
+			},
+			{
+				displayName: 'Cell ID',
+				name: 'cellId',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['row'],
+						operation: ['downloadFile'],
+						downloadMode: ['cell'],
+					},
+				},
+				default: '',
+				description: 'ID of the cell containing the file. You can get cell IDs from the response of a "Get Row" operation.',
+			},
+			{
+				displayName: 'Row ID',
+				name: 'rowId',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['row'],
+						operation: ['downloadFile'],
+						downloadMode: ['row'],
+					},
+				},
+				default: '',
+				description: 'ID of the row whose files to download',
+			},
+			{
+				displayName: 'Put Output File in Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['row'],
+						operation: ['downloadFile'],
+					},
+				},
+				default: 'data',
+				hint: 'The name of the output binary field to put the file in',
+				description: 'When downloading all files of a row, each file is put in this field followed by its index (data_0, data_1, ...)',
+			},
 			{
 				displayName: 'Cells',
 				name: 'cells',
@@ -308,6 +1189,7 @@ export class Phacet implements INodeType {
 					show: {
 						resource: ['row'],
 						operation: ['update'],
+						'@version': [1],
 					},
 				},
 				default: {},
@@ -333,6 +1215,18 @@ export class Phacet implements INodeType {
 								},
 								description: 'Select the column for this cell. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 							},
+							{
+								displayName: 'File ID',
+								name: 'fileId',
+								type: 'string',
+								default: '',
+								displayOptions: {
+									show: {
+										type: ['fileId'],
+									},
+								},
+								description: 'ID of a file already uploaded to Phacet, for example with the File > Upload operation',
+							},
 							{
 								displayName: 'Input Binary Field',
 								name: 'binaryProperty',
@@ -343,7 +1237,7 @@ export class Phacet implements INodeType {
 										type: ['file'],
 									},
 								},
-								description: 'Name of the binary property containing the PDF file',
+								description: 'Name of the binary property containing the file',
 							},
 							{
 								displayName: 'Original Filename',
@@ -364,6 +1258,7 @@ export class Phacet implements INodeType {
 								options: [
 									{ name: 'Text', value: 'text' },
 									{ name: 'File', value: 'file' },
+									{ name: 'File ID', value: 'fileId' },
 								],
 								default: 'text',
 							},
@@ -377,13 +1272,168 @@ export class Phacet implements INodeType {
 										type: ['text'],
 									},
 								},
-								description: 'The cell value. For text columns: enter text.',
+								description: 'The cell value. It is converted to the column type (number, date, boolean or select option) and validated before the row is sent.',
 								placeholder: 'Text value',
 							},
 						],
 					},
 				],
 			},
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['row', 'session', 'table'],
+						operation: ['getAll'],
+					},
+				},
+				default: false,
+				description: 'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['row', 'session', 'table'],
+						operation: ['getAll'],
+						returnAll: [false],
+					},
+				},
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 50,
+				description: 'Max number of results to return',
+			},
+			{
+				displayName: 'Filters',
+				name: 'filters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				displayOptions: {
+					show: {
+						resource: ['row'],
+						operation: ['getAll'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Calculation Status',
+						name: 'status',
+						type: 'options',
+						options: [
+							{ name: 'Completed', value: 'completed' },
+							{ name: 'Failed', value: 'failed' },
+							{ name: 'Pending', value: 'pending' },
+							{ name: 'Running', value: 'running' },
+						],
+						default: 'completed',
+						description: 'Only return rows whose calculation is in this status',
+					},
+					{
+						displayName: 'Column Name or ID',
+						name: 'columnId',
+						type: 'options',
+						default: '',
+						typeOptions: {
+							loadOptionsMethod: 'getColumns',
+							loadOptionsDependsOn: ['tableId'],
+						},
+						description: 'Only return rows where this column matches Column Value. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+					},
+					{
+						displayName: 'Column Value',
+						name: 'columnValue',
+						type: 'string',
+						default: '',
+						description: 'Value the selected column must match',
+					},
+					{
+						displayName: 'Session Name or ID',
+						name: 'sessionId',
+						type: 'options',
+						default: '',
+						typeOptions: {
+							loadOptionsMethod: 'getSessions',
+							loadOptionsDependsOn: ['tableId'],
+						},
+						description: 'Only return rows from this session. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+					},
+				],
+			},
+			{
+				displayName: 'Sort',
+				name: 'sort',
+				type: 'collection',
+				placeholder: 'Add Sort Option',
+				displayOptions: {
+					show: {
+						resource: ['row'],
+						operation: ['getAll'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Sort By',
+						name: 'sortBy',
+						type: 'options',
+						options: [
+							{ name: 'Created At', value: 'createdAt' },
+							{ name: 'Updated At', value: 'updatedAt' },
+						],
+						default: 'createdAt',
+					},
+					{
+						displayName: 'Sort Order',
+						name: 'sortOrder',
+						type: 'options',
+						options: [
+							{ name: 'Ascending', value: 'asc' },
+							{ name: 'Descending', value: 'desc' },
+						],
+						default: 'desc',
+					},
+				],
+			},
+			{
+				displayName: 'Columns',
+				name: 'columns',
+				type: 'resourceMapper',
+				noDataExpression: true,
+				default: {
+					mappingMode: 'defineBelow',
+					value: null,
+				},
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['row'],
+						operation: ['create', 'update', 'upsert'],
+						'@version': [{ _cnd: { gte: 2 } }],
+					},
+				},
+				typeOptions: {
+					loadOptionsDependsOn: ['tableId'],
+					resourceMapper: {
+						resourceMapperMethod: 'getMappingColumns',
+						mode: 'add',
+						fieldWords: {
+							singular: 'column',
+							plural: 'columns',
+						},
+						addAllFields: true,
+						multiKeyMatch: false,
+						supportAutoMap: true,
+					},
+				},
+				description: 'Cell values for the row, mapped by column name. For file columns, enter the name of the binary property holding the file.',
+			},
 			{
 				displayName: 'Run Row',
 				name: 'runRow',
@@ -391,47 +1441,201 @@ export class Phacet implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['row'],
-						operation: ['update'],
+						operation: ['update', 'upsert'],
+					},
+				},
+				default: true,
+				description: 'Whether to trigger the row\'s workflow run after the update. Disable to update cell values without re-running the row.',
+			},
+			{
+				displayName: 'Simplify',
+				name: 'simplify',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['row'],
+						operation: ['create', 'get', 'getAll', 'update', 'upsert'],
+					},
+				},
+				default: false,
+				description: 'Whether to return a simplified version of the response instead of the raw data',
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['row', 'file'],
+						operation: ['create', 'update', 'upsert', 'upload'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Allowed File Types',
+						name: 'allowedFileTypes',
+						type: 'multiOptions',
+						options: [
+							{ name: 'CSV', value: 'csv' },
+							{ name: 'Excel (XLSX)', value: 'xlsx' },
+							{ name: 'JPEG', value: 'jpeg' },
+							{ name: 'PDF', value: 'pdf' },
+							{ name: 'PNG', value: 'png' },
+						],
+						default: ['csv', 'xlsx', 'jpeg', 'pdf', 'png'],
+						description: 'File types accepted in file cells and uploads. The type is detected from the file content and MIME type, not from the file extension.',
+					},
+					{
+						displayName: 'Batching',
+						name: 'batching',
+						placeholder: 'Add Batching',
+						type: 'fixedCollection',
+						typeOptions: {
+							multipleValues: false,
+						},
+						displayOptions: {
+							show: {
+								'/operation': ['create'],
+							},
+						},
+						default: {
+							batch: {},
+						},
+						options: [
+							{
+								displayName: 'Batching',
+								name: 'batch',
+								values: [
+									{
+										displayName: 'Items per Batch',
+										name: 'batchSize',
+										type: 'number',
+										typeOptions: {
+											minValue: 1,
+										},
+										default: 10,
+										description: 'Number of rows created concurrently in each batch',
+									},
+									{
+										displayName: 'Batch Interval (Ms)',
+										name: 'batchInterval',
+										type: 'number',
+										typeOptions: {
+											minValue: 0,
+										},
+										default: 0,
+										description: 'Time (in milliseconds) between each batch of requests. 0 for disabled.',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Calculation Timeout (Seconds)',
+						name: 'calculationTimeout',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						displayOptions: {
+							show: {
+								waitForCalculation: [true],
+							},
+						},
+						default: 300,
+						description: 'How long to wait for the calculation before failing the item',
+					},
+					{
+						displayName: 'File Cell Values',
+						name: 'fileCellValues',
+						type: 'options',
+						displayOptions: {
+							show: {
+								'/resource': ['row'],
+								'@version': [{ _cnd: { gte: 2 } }],
+							},
+						},
+						options: [
+							{
+								name: 'Binary Property Names',
+								value: 'binary',
+								description: 'File columns name a binary property of the input item, which is uploaded',
+							},
+							{
+								name: 'File IDs',
+								value: 'fileId',
+								description: 'File columns hold the ID of a file already uploaded with File > Upload',
+							},
+						],
+						default: 'binary',
+					},
+					{
+						displayName: 'Idempotency Key',
+						name: 'idempotencyKey',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. {{ $json.invoiceId }}',
+						description: 'Key sent with the create and file upload requests. Repeating a request with the same key returns the original row or file instead of creating a new one. Defaults to a key derived from the execution ID, node name, run index and item index.',
+					},
+					{
+						displayName: 'Max File Size (MB)',
+						name: 'maxFileSize',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 0,
+						description: 'Largest file accepted in file cells and uploads, in megabytes. Set to 0 for no limit.',
+					},
+					{
+						displayName: 'Poll Interval (Seconds)',
+						name: 'pollInterval',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						displayOptions: {
+							show: {
+								waitForCalculation: [true],
+							},
+						},
+						default: 5,
+						description: 'How often to check the row while waiting for the calculation',
+					},
+					{
+						displayName: 'Route Failed Rows to Second Output',
+						name: 'routeFailedRows',
+						type: 'boolean',
+						displayOptions: {
+							show: {
+								waitForCalculation: [true],
+							},
+						},
+						default: false,
+						description: 'Whether to send rows whose calculation failed to a separate "Failed" output',
 					},
-				},
-				default: true,
-				description: 'Whether to trigger the row\'s workflow run after the update. Disable to update cell values without re-running the row.',
+					{
+						displayName: 'Wait for Calculation',
+						name: 'waitForCalculation',
+						type: 'boolean',
+						displayOptions: {
+							show: {
+								'/resource': ['row'],
+							},
+						},
+						default: false,
+						description: 'Whether to wait until the row calculation has completed or failed and output the final row',
+					},
+				],
 			},
 					],
 	};
 
 	methods = {
 		loadOptions: {
-			async getPhacets(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
-				const projectsResponse = await this.helpers.httpRequestWithAuthentication.call(
-					this,
-					'phacetApi',
-					{
-						method: 'GET',
-						url: 'https://api.phacetlabs.com/api/v2/projects',
-						headers: {
-							'accept': 'application/json',
-						},
-					},
-				);
-
-				const allTables: INodePropertyOptions[] = [];
-
-				if (Array.isArray(projectsResponse)) {
-					projectsResponse.forEach((project: { id: string; name: string; tables: Array<{ id: string; name: string }> }) => {
-						if (project.tables && Array.isArray(project.tables)) {
-							project.tables.forEach((table) => {
-								allTables.push({
-									name: table.name,
-									value: table.id,
-								});
-							});
-						}
-					});
-				}
-
-				return allTables.sort((a: INodePropertyOptions, b: INodePropertyOptions) => a.name.localeCompare(b.name));
-			},
+			getPhacets,
 
 			async getSessions(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
 				const tableId = this.getCurrentNodeParameter('tableId');
@@ -440,34 +1644,14 @@ export class Phacet implements INodeType {
 					return [];
 				}
 
-				const projectsResponse = await this.helpers.httpRequestWithAuthentication.call(
-					this,
-					'phacetApi',
-					{
-						method: 'GET',
-						url: 'https://api.phacetlabs.com/api/v2/projects',
-						headers: {
-							'accept': 'application/json',
-						},
-					},
-				);
-
-				if (Array.isArray(projectsResponse)) {
-					for (const project of projectsResponse) {
-						if (project.tables && Array.isArray(project.tables)) {
-							const selectedTable = project.tables.find((table: { id: string; sessions?: Array<{ id: string; name?: string }> }) => table.id === tableId);
-
-							if (selectedTable && Array.isArray(selectedTable.sessions)) {
-								return selectedTable.sessions.map((session: { id: string; name?: string }) => ({
-									name: session.name || session.id,
-									value: session.id,
-								})).sort((a: INodePropertyOptions, b: INodePropertyOptions) => a.name.localeCompare(b.name));
-							}
-						}
-					}
-				}
+				const sessions = await getTableSessions.call(this, tableId as string);
 
-				return [];
+				return sessions
+					.map((session) => ({
+						name: (session.name as string | undefined) || (session.id as string),
+						value: session.id as string,
+					}))
+					.sort((a: INodePropertyOptions, b: INodePropertyOptions) => a.name.localeCompare(b.name));
 			},
 
 			async getColumns(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
@@ -477,28 +1661,47 @@ export class Phacet implements INodeType {
 					return [];
 				}
 
-				const options = {
-					method: 'GET' as const,
-					url: `https://api.phacetlabs.com/api/v2/tables/${tableId}`,
-					headers: {
-						'Content-Type': 'application/json',
-					},
-				};
+				const columns = await getTableColumns.call(this, tableId as string);
 
-				const response = await this.helpers.httpRequestWithAuthentication.call(
-					this,
-					'phacetApi',
-					options,
-				);
+				return columns.map((column) => ({
+					name: getColumnName(column),
+					value: column.id,
+				}));
+			},
+		},
 
-				if (response && Array.isArray(response.columns)) {
-					return response.columns.map((column: { id: string; columnName?: string }) => ({
-						name: column.columnName || column.id,
-						value: column.id,
-					}));
+		resourceMapping: {
+			async getMappingColumns(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
+				const tableId = this.getCurrentNodeParameter('tableId') as string;
+
+				if (!tableId) {
+					return { fields: [] };
 				}
 
-				return [];
+				const columns = await getTableColumns.call(this, tableId);
+
+				return {
+					fields: columns.map((column) => ({
+						id: getColumnName(column),
+						displayName:
+							column.type === 'file'
+								? `${getColumnName(column)} (Binary Property or File ID)`
+								: getColumnName(column),
+						required: false,
+						defaultMatch: false,
+						display: true,
+						...(column.type === 'select' && column.options?.length
+							? {
+									type: 'options' as const,
+									options: column.options.map((option) =>
+										typeof option === 'string'
+											? { name: option, value: option }
+											: { name: option.label ?? option.value, value: option.value },
+									),
+								}
+							: { type: 'string' as const }),
+					})),
+				};
 			},
 		},
 	};
@@ -509,101 +1712,211 @@ export class Phacet implements INodeType {
 		const operation = this.getNodeParameter('operation', 0) as string;
 
 		const returnData: INodeExecutionData[] = [];
+		const failedData: INodeExecutionData[] = [];
+		const columnsCache = new Map<string, Promise<PhacetColumn[]>>();
+		const sessionsCache = new Map<string, Promise<string | undefined>>();
+
+		const rowOptions = this.getNodeParameter('options', 0, {}) as {
+			waitForCalculation?: boolean;
+			routeFailedRows?: boolean;
+		};
+		const routeFailedRows = !!(rowOptions.waitForCalculation && rowOptions.routeFailedRows);
+
+		// Simplified rows are keyed by column name, using the schema cached for the execution
+		const formatRow = async (row: IDataObject, itemIndex: number, tableId: string) => {
+			if (!(this.getNodeParameter('simplify', itemIndex, false) as boolean)) {
+				return row;
+			}
+			return simplifyRow(row, await getTableColumns.call(this, tableId, columnsCache));
+		};
+
+		const pushRow = async (
+			row: IDataObject,
+			itemIndex: number,
+			tableId: string,
+			fields: IDataObject = {},
+		) => {
+			(routeFailedRows && row.status === 'failed' ? failedData : returnData).push({
+				json: { ...(await formatRow(row, itemIndex, tableId)), ...fields },
+				pairedItem: { item: itemIndex },
+			});
+		};
+
+		// Rows are created in batches of concurrent requests; a batch size of 1 keeps
+		// the one-request-per-item behaviour
+		if (resource === 'row' && operation === 'create') {
+			const { batchSize = 1, batchInterval = 0 } = this.getNodeParameter(
+				'options.batching.batch',
+				0,
+				{},
+			) as { batchSize?: number; batchInterval?: number };
+
+			for (let start = 0; start < items.length; start += batchSize) {
+				if (start > 0 && batchInterval > 0) {
+					await sleep(batchInterval);
+				}
+
+				const itemIndexes = items
+					.slice(start, start + batchSize)
+					.map((_item, offset) => start + offset);
+				const results = await Promise.allSettled(
+					itemIndexes.map(async (itemIndex) => await createRow.call(this, itemIndex, columnsCache, sessionsCache)),
+				);
+
+				for (const [offset, result] of results.entries()) {
+					const itemIndex = itemIndexes[offset];
+
+					if (result.status === 'fulfilled') {
+						const tableId = this.getNodeParameter('tableId', itemIndex) as string;
+						await pushRow(result.value, itemIndex, tableId);
+						continue;
+					}
+
+					const error = result.reason;
+
+					if (this.continueOnFail()) {
+						returnData.push({
+							json: { error: (error as Error).message },
+							pairedItem: { item: itemIndex },
+						});
+						continue;
+					}
+					if (error instanceof NodeOperationError || error instanceof NodeApiError) {
+						throw error;
+					}
+					throw new NodeApiError(this.getNode(), error as JsonObject, { itemIndex });
+				}
+			}
+
+			return routeFailedRows ? [returnData, failedData] : [returnData];
+		}
 
 		for (let i = 0; i < items.length; i++) {
 			try {
 				if (resource === 'row') {
-					if (operation === 'create') {
+					if (operation === 'upsert') {
 						const tableId = this.getNodeParameter('tableId', i) as string;
-						const sessionId = this.getNodeParameter('sessionId', i) as string;
-						const cells = this.getNodeParameter('cells', i) as {
-							cellValues: Array<{
-								columnId: string;
-								value?: string;
-								type?: 'text' | 'file';
-								binaryProperty?: string;
-								originalFilename?: string;
-							}>;
-						};
+						const keyColumnId = this.getNodeParameter('keyColumnId', i) as string;
+						const runRow = this.getNodeParameter('runRow', i, true) as boolean;
 
 						if (!tableId) {
 							throw new NodeOperationError(this.getNode(), 'Table ID is required', { itemIndex: i });
 						}
-						if (!sessionId) {
-							throw new NodeOperationError(this.getNode(), 'Session ID is required', { itemIndex: i });
-						}
-						if (!cells.cellValues || cells.cellValues.length === 0) {
+						const sessionId = await getSessionId.call(this, i, tableId, sessionsCache);
+						const cellValues = await getCellValues.call(this, i, tableId, columnsCache);
+
+						if (cellValues.length === 0) {
 							throw new NodeOperationError(this.getNode(), 'At least one cell is required', { itemIndex: i });
 						}
 
-						const processedCells: Array<{ columnId: string; value: string }> = [];
+						const keyCell = cellValues.find((cell) => cell.columnId === keyColumnId);
 
-						for (const cell of cells.cellValues) {
-							if (cell.type === 'file') {
-								if (!cell.binaryProperty) {
-									throw new NodeOperationError(
-										this.getNode(),
-										'Binary property is required for file cells',
-										{ itemIndex: i },
-									);
-								}
-								const { id: fileId } = await uploadFile.call(
-									this,
-									i,
-									cell.binaryProperty,
-									cell.originalFilename,
-								);
-								processedCells.push({
-									columnId: cell.columnId,
-									value: fileId,
-								});
-							} else {
-								processedCells.push({
-									columnId: cell.columnId,
-									value: cell.value || '',
-								});
-							}
+						if (
+							!keyCell ||
+							keyCell.type === 'file' ||
+							keyCell.type === 'fileId' ||
+							keyCell.value === undefined ||
+							keyCell.value === ''
+						) {
+							throw new NodeOperationError(
+								this.getNode(),
+								'The cells must include a text value for the key column',
+								{ itemIndex: i },
+							);
 						}
 
-						const requestBody = {
-							sessionId,
-							cells: processedCells,
-						};
+						// Stored values are converted to the column type, so the key must be too
+						const columns = await getTableColumns.call(this, tableId, columnsCache);
+						const keyColumn = columns.find((column) => column.id === keyColumnId);
+						const keyValue = keyColumn
+							? convertCellValue(keyColumn, keyCell.value)
+							: { value: keyCell.value };
 
-						const responseData = await this.helpers.httpRequestWithAuthentication.call(
+						if ('error' in keyValue) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`Invalid value for key column "${getColumnName(keyColumn as PhacetColumn)}" in item ${i}: ${keyValue.error}`,
+								{ itemIndex: i },
+							);
+						}
+
+						const matches = await phacetApiRequestAllItems.call(
 							this,
-							'phacetApi',
-							{
-								method: 'POST',
-								url: `https://api.phacetlabs.com/api/v2/tables/${tableId}/rows`,
-								body: requestBody,
-								headers: {
-									'Content-Type': 'application/json',
-								},
-							},
+							`/api/v2/tables/${tableId}/rows`,
+							{ sessionId, columnId: keyColumnId, columnValue: keyValue.value },
 						);
 
-						const result = {
-							...responseData,
-						};
+						// Only update a row whose key cell really holds the key, in case the API
+						// does not apply the column filter exactly
+						const existingRow = matches.find((row) => {
+							const storedKey = (
+								Array.isArray(row.cells) ? (row.cells as PhacetCell[]) : []
+							).find((cell) => cell.columnId === keyColumnId)?.value;
+							const convertedKey =
+								keyColumn && storedKey !== undefined && storedKey !== null
+									? convertCellValue(keyColumn, storedKey)
+									: { value: storedKey };
 
-						returnData.push({
-							json: result,
-							pairedItem: { item: i },
+							return 'value' in convertedKey && String(convertedKey.value) === String(keyValue.value);
 						});
+
+						const processedCells = await processCells.call(this, i, cellValues, columns);
+
+						let responseData: IDataObject;
+
+						if (existingRow) {
+							responseData = await phacetApiRequest.call(
+								this,
+								'PUT',
+								`/api/v2/tables/${tableId}/rows/${existingRow.id}`,
+								{
+									body: {
+										cells: processedCells,
+										runRow,
+									},
+									headers: {
+										'Content-Type': 'application/json',
+									},
+								},
+							);
+						} else {
+							responseData = await phacetApiRequest.call(
+								this,
+								'POST',
+								`/api/v2/tables/${tableId}/rows`,
+								{
+									body: {
+										sessionId,
+										cells: processedCells,
+									},
+									headers: {
+										'Content-Type': 'application/json',
+										'Idempotency-Key': getIdempotencyKey.call(this, i),
+									},
+									idempotent: true,
+								},
+							);
+						}
+
+						const waitForCalculation =
+							(this.getNodeParameter('options.waitForCalculation', i, false) as boolean) &&
+							(!existingRow || runRow);
+
+						const result = waitForCalculation
+							? await waitForRowCalculation.call(
+									this,
+									i,
+									tableId,
+									responseData.id as string,
+									existingRow ? responseData : undefined,
+								)
+							: responseData;
+
+						await pushRow(result, i, tableId, { action: existingRow ? 'updated' : 'created' });
 					} else if (operation === 'update') {
 						const tableId = this.getNodeParameter('tableId', i) as string;
 						const rowId = this.getNodeParameter('rowId', i) as string;
 						const runRow = this.getNodeParameter('runRow', i, true) as boolean;
-						const cells = this.getNodeParameter('cells', i) as {
-							cellValues: Array<{
-								columnId: string;
-								value?: string;
-								type?: 'text' | 'file';
-								binaryProperty?: string;
-								originalFilename?: string;
-							}>;
-						};
 
 						if (!tableId) {
 							throw new NodeOperationError(this.getNode(), 'Table ID is required', { itemIndex: i });
@@ -611,50 +1924,29 @@ export class Phacet implements INodeType {
 						if (!rowId) {
 							throw new NodeOperationError(this.getNode(), 'Row ID is required', { itemIndex: i });
 						}
-						if (!cells.cellValues || cells.cellValues.length === 0) {
+						const cellValues = await getCellValues.call(this, i, tableId, columnsCache);
+
+						if (cellValues.length === 0) {
 							throw new NodeOperationError(this.getNode(), 'At least one cell is required', { itemIndex: i });
 						}
 
-						const processedCells: Array<{ columnId: string; value: string }> = [];
-
-						for (const cell of cells.cellValues) {
-							if (cell.type === 'file') {
-								if (!cell.binaryProperty) {
-									throw new NodeOperationError(
-										this.getNode(),
-										'Binary property is required for file cells',
-										{ itemIndex: i },
-									);
-								}
-								const { id: fileId } = await uploadFile.call(
-									this,
-									i,
-									cell.binaryProperty,
-									cell.originalFilename,
-								);
-								processedCells.push({
-									columnId: cell.columnId,
-									value: fileId,
-								});
-							} else {
-								processedCells.push({
-									columnId: cell.columnId,
-									value: cell.value || '',
-								});
-							}
-						}
+						const processedCells = await processCells.call(
+							this,
+							i,
+							cellValues,
+							await getTableColumns.call(this, tableId, columnsCache),
+						);
 
 						const requestBody = {
 							cells: processedCells,
 							runRow,
 						};
 
-						const responseData = await this.helpers.httpRequestWithAuthentication.call(
+						const responseData = await phacetApiRequest.call(
 							this,
-							'phacetApi',
+							'PUT',
+							`/api/v2/tables/${tableId}/rows/${rowId}`,
 							{
-								method: 'PUT',
-								url: `https://api.phacetlabs.com/api/v2/tables/${tableId}/rows/${rowId}`,
 								body: requestBody,
 								headers: {
 									'Content-Type': 'application/json',
@@ -662,14 +1954,15 @@ export class Phacet implements INodeType {
 							},
 						);
 
-						const result = {
-							...responseData,
-						};
+						// Without Run Row there is no calculation to wait for
+						const waitForCalculation =
+							runRow && (this.getNodeParameter('options.waitForCalculation', i, false) as boolean);
 
-						returnData.push({
-							json: result,
-							pairedItem: { item: i },
-						});
+						const result = waitForCalculation
+							? await waitForRowCalculation.call(this, i, tableId, rowId, responseData)
+							: { ...responseData };
+
+						await pushRow(result, i, tableId);
 					} else if (operation === 'getCellDownloadUrl') {
 						const tableId = this.getNodeParameter('tableId', i) as string;
 						const cellId = this.getNodeParameter('cellId', i) as string;
@@ -681,19 +1974,147 @@ export class Phacet implements INodeType {
 							throw new NodeOperationError(this.getNode(), 'Cell ID is required', { itemIndex: i });
 						}
 
-						const response = await this.helpers.httpRequestWithAuthentication.call(
+						const response = await phacetApiRequest.call(
 							this,
-							'phacetApi',
-							{
-								method: 'GET',
-								url: `https://api.phacetlabs.com/api/v2/tables/${tableId}/cells/${cellId}/download-file-url`,
-							},
-						);	
+							'GET',
+							`/api/v2/tables/${tableId}/cells/${cellId}/download-file-url`,
+						);
 
 						returnData.push({
 							json: response,
 							pairedItem: { item: i },
 						});
+					} else if (operation === 'downloadFile') {
+						const tableId = this.getNodeParameter('tableId', i) as string;
+						const downloadMode = this.getNodeParameter('downloadMode', i) as 'cell' | 'row';
+						const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+
+						if (!tableId) {
+							throw new NodeOperationError(this.getNode(), 'Table ID is required', { itemIndex: i });
+						}
+
+						const binary: IBinaryKeyData = {};
+						let json: IDataObject;
+
+						if (downloadMode === 'cell') {
+							const cellId = this.getNodeParameter('cellId', i) as string;
+
+							if (!cellId) {
+								throw new NodeOperationError(this.getNode(), 'Cell ID is required', { itemIndex: i });
+							}
+
+							binary[binaryPropertyName] = await downloadCellFile.call(this, tableId, cellId);
+							json = { tableId, cellId };
+						} else {
+							const rowId = this.getNodeParameter('rowId', i) as string;
+
+							if (!rowId) {
+								throw new NodeOperationError(this.getNode(), 'Row ID is required', { itemIndex: i });
+							}
+
+							const row = await phacetApiRequest.call(
+								this,
+								'GET',
+								`/api/v2/tables/${tableId}/rows/${rowId}`,
+							);
+							const columns = await getTableColumns.call(this, tableId, columnsCache);
+							const files: IDataObject[] = [];
+
+							for (const [index, { cell, column }] of getRowFileCells(row, columns).entries()) {
+								const propertyName = `${binaryPropertyName}_${index}`;
+								binary[propertyName] = await downloadCellFile.call(this, tableId, cell.id);
+								files.push({
+									binaryProperty: propertyName,
+									cellId: cell.id,
+									columnId: column.id,
+									columnName: getColumnName(column),
+								});
+							}
+
+							json = { tableId, rowId, files };
+						}
+
+						returnData.push({
+							json,
+							binary,
+							pairedItem: { item: i },
+						});
+					} else if (operation === 'getAll') {
+						const tableId = this.getNodeParameter('tableId', i) as string;
+						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+						const filters = this.getNodeParameter('filters', i) as {
+							sessionId?: string;
+							columnId?: string;
+							columnValue?: string;
+							status?: string;
+						};
+						const sort = this.getNodeParameter('sort', i) as {
+							sortBy?: string;
+							sortOrder?: string;
+						};
+
+						if (!tableId) {
+							throw new NodeOperationError(this.getNode(), 'Table ID is required', { itemIndex: i });
+						}
+						if (filters.columnId && filters.columnValue === undefined) {
+							throw new NodeOperationError(this.getNode(), 'Column Value is required when filtering by column', { itemIndex: i });
+						}
+
+						const qs: IDataObject = { ...filters, ...sort };
+						const endpoint = `/api/v2/tables/${tableId}/rows`;
+
+						// Pages hold at most 100 rows, so a higher limit is read over several pages
+						const rows = await phacetApiRequestAllItems.call(
+							this,
+							endpoint,
+							qs,
+							returnAll ? undefined : (this.getNodeParameter('limit', i) as number),
+						);
+
+						for (const row of rows) {
+							returnData.push({
+								json: await formatRow(row, i, tableId),
+								pairedItem: { item: i },
+							});
+						}
+					} else if (operation === 'delete') {
+						const tableId = this.getNodeParameter('tableId', i) as string;
+						const rowId = this.getNodeParameter('rowId', i) as string;
+						const additionalRowIds = this.getNodeParameter('additionalRowIds', i, '') as
+							| string
+							| string[];
+
+						if (!tableId) {
+							throw new NodeOperationError(this.getNode(), 'Table ID is required', { itemIndex: i });
+						}
+						if (!rowId) {
+							throw new NodeOperationError(this.getNode(), 'Row ID is required', { itemIndex: i });
+						}
+
+						const extraRowIds = Array.isArray(additionalRowIds)
+							? additionalRowIds
+							: additionalRowIds.split(',');
+						const rowIds = [
+							...new Set([rowId, ...extraRowIds].map((id) => String(id).trim()).filter((id) => id)),
+						];
+
+						for (const id of rowIds) {
+							try {
+								await phacetApiRequest.call(this, 'DELETE', `/api/v2/tables/${tableId}/rows/${id}`);
+								returnData.push({
+									json: { rowId: id, deleted: true },
+									pairedItem: { item: i },
+								});
+							} catch (error) {
+								if (!isNotFoundError(error)) {
+									throw new NodeApiError(this.getNode(), error as JsonObject, { itemIndex: i });
+								}
+								returnData.push({
+									json: { rowId: id, deleted: false, error: 'Row not found' },
+									pairedItem: { item: i },
+								});
+							}
+						}
 					} else if (operation === 'get') {
 						const tableId = this.getNodeParameter('tableId', i) as string;
 						const rowId = this.getNodeParameter('rowId', i) as string;
@@ -705,19 +2126,158 @@ export class Phacet implements INodeType {
 							throw new NodeOperationError(this.getNode(), 'Row ID is required', { itemIndex: i });
 						}
 
-						const response = await this.helpers.httpRequestWithAuthentication.call(
+						const response = await phacetApiRequest.call(
+							this,
+							'GET',
+							`/api/v2/tables/${tableId}/rows/${rowId}`,
+						);
+
+						returnData.push({
+							json: await formatRow(response, i, tableId),
+							pairedItem: { item: i },
+						});
+					}
+				} else if (resource === 'file') {
+					if (operation === 'upload') {
+						const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+
+						const file = await uploadFile.call(
+							this,
+							i,
+							binaryPropertyName,
+							`${getIdempotencyKey.call(this, i)}:${binaryPropertyName}`,
+						);
+
+						returnData.push({
+							json: file,
+							pairedItem: { item: i },
+						});
+					} else if (operation === 'getMetadata') {
+						const fileId = this.getNodeParameter('fileId', i) as string;
+
+						if (!fileId) {
+							throw new NodeOperationError(this.getNode(), 'File ID is required', { itemIndex: i });
+						}
+
+						const responseData = await phacetApiRequest.call(this, 'GET', `/api/v2/files/${fileId}`, {
+							headers: {
+								accept: 'application/json',
+							},
+						});
+
+						returnData.push({
+							json: responseData,
+							pairedItem: { item: i },
+						});
+					}
+				} else if (resource === 'session') {
+					const tableId = this.getNodeParameter('tableId', i) as string;
+
+					if (!tableId) {
+						throw new NodeOperationError(this.getNode(), 'Table ID is required', { itemIndex: i });
+					}
+
+					if (operation === 'create') {
+						const sessionName = (this.getNodeParameter('sessionName', i) as string).trim();
+
+						if (!sessionName) {
+							throw new NodeOperationError(this.getNode(), 'Session Name is required', { itemIndex: i });
+						}
+
+						const responseData = await phacetApiRequest.call(
 							this,
-							'phacetApi',
+							'POST',
+							`/api/v2/tables/${tableId}/sessions`,
 							{
-								method: 'GET',
-								url: `https://api.phacetlabs.com/api/v2/tables/${tableId}/rows/${rowId}`,
+								body: { name: sessionName },
+								headers: {
+									'Content-Type': 'application/json',
+								},
 							},
 						);
 
 						returnData.push({
-							json: response,
+							json: responseData,
+							pairedItem: { item: i },
+						});
+					} else if (operation === 'get') {
+						const sessionId = this.getNodeParameter('sessionId', i) as string;
+
+						if (!sessionId) {
+							throw new NodeOperationError(this.getNode(), 'Session ID is required', { itemIndex: i });
+						}
+
+						const sessions = await getTableSessions.call(this, tableId);
+						const session = sessions.find((candidate) => candidate.id === sessionId);
+
+						if (!session) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`Session "${sessionId}" not found in table "${tableId}"`,
+								{ itemIndex: i },
+							);
+						}
+
+						returnData.push({
+							json: { ...session, tableId },
+							pairedItem: { item: i },
+						});
+					} else if (operation === 'getAll') {
+						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+
+						let sessions = await getTableSessions.call(this, tableId);
+
+						if (!returnAll) {
+							sessions = sessions.slice(0, this.getNodeParameter('limit', i) as number);
+						}
+
+						sessions.forEach((session) => {
+							returnData.push({
+								json: { ...session, tableId },
+								pairedItem: { item: i },
+							});
+						});
+					}
+				} else if (resource === 'table') {
+					if (operation === 'get') {
+						const tableId = this.getNodeParameter('tableId', i) as string;
+
+						if (!tableId) {
+							throw new NodeOperationError(this.getNode(), 'Table ID is required', { itemIndex: i });
+						}
+
+						const table = (await phacetApiRequest.call(this, 'GET', `/api/v2/tables/${tableId}`, {
+							headers: {
+								accept: 'application/json',
+							},
+						})) as IDataObject;
+						const columns = Array.isArray(table.columns) ? (table.columns as PhacetColumn[]) : [];
+						columnsCache.set(tableId, Promise.resolve(columns));
+
+						returnData.push({
+							json: { ...table, columns: describeColumns(columns) },
 							pairedItem: { item: i },
 						});
+					} else if (operation === 'getAll') {
+						const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+						const includeColumns = this.getNodeParameter('includeColumns', i, false) as boolean;
+
+						let tables = await getProjectTables.call(this);
+
+						if (!returnAll) {
+							tables = tables.slice(0, this.getNodeParameter('limit', i) as number);
+						}
+
+						for (const table of tables) {
+							const columns = includeColumns
+								? { columns: describeColumns(await getTableColumns.call(this, table.id as string, columnsCache)) }
+								: {};
+
+							returnData.push({
+								json: { ...table, ...columns },
+								pairedItem: { item: i },
+							});
+						}
 					}
 				}
 			} catch (error) {
@@ -736,6 +2296,6 @@ export class Phacet implements INodeType {
 			}
 		}
 
-		return [returnData];
+		return routeFailedRows ? [returnData, failedData] : [returnData];
 	}
 }
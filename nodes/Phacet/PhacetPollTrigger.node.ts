@@ -0,0 +1,166 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+
+import { NodeConnectionTypes, NodeOperationError } from 'n8n-workflow';
+
+import type { PhacetColumn } from './GenericFunctions';
+import {
+	getCalculationFailure,
+	getPhacets,
+	getRowEvents,
+	getRowsChangedSince,
+	getTableColumns,
+} from './GenericFunctions';
+
+export class PhacetPollTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Phacet Poll Trigger',
+		usableAsTool: true,
+		name: 'phacetPollTrigger',
+		icon: 'file:phacet.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle: '={{$parameter["event"].join(", ")}}',
+		description:
+			'Starts the workflow when Phacet rows are created or finish calculating, by polling the table. Use it when Phacet cannot reach your n8n webhook URL.',
+		defaults: {
+			name: 'Phacet Poll Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: [NodeConnectionTypes.Main],
+		credentials: [
+			{
+				name: 'phacetApi',
+				required: true,
+			},
+		],
+		properties: [
+			{
+				displayName: 'Events',
+				name: 'event',
+				type: 'multiOptions',
+				required: true,
+				default: ['row.calculation.completed'],
+				options: [
+					{
+						name: 'Row Calculation Completed',
+						value: 'row.calculation.completed',
+						description: 'Triggers when a row calculation completes successfully in a table',
+					},
+					{
+						name: 'Row Calculation Failed',
+						value: 'row.calculation.failed',
+						description: 'Triggers when a row calculation fails in a table',
+					},
+					{
+						name: 'Row Created',
+						value: 'row.created',
+						description: 'Triggers when a new row is created in a table',
+					},
+				],
+			},
+			{
+				displayName: 'Table Names or IDs',
+				name: 'tableId',
+				type: 'multiOptions',
+				required: true,
+				default: [],
+				typeOptions: {
+					loadOptionsMethod: 'getPhacets',
+				},
+				description:
+					'Select the tables to poll for new and calculated rows. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+		],
+	};
+
+	methods = {
+		loadOptions: {
+			getPhacets,
+		},
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const staticData = this.getWorkflowStaticData('node') as IDataObject & {
+			lastPolledAt?: string;
+		};
+
+		const events = this.getNodeParameter('event', []) as string[];
+		const tableIds = this.getNodeParameter('tableId', []) as string[];
+
+		if (tableIds.length === 0) {
+			throw new NodeOperationError(this.getNode(), 'At least one table ID is required');
+		}
+
+		const isManual = this.getMode() === 'manual';
+		const now = new Date().toISOString();
+
+		// The first automatic poll only sets the cursor, so existing rows are not replayed
+		if (!staticData.lastPolledAt && !isManual) {
+			staticData.lastPolledAt = now;
+			return null;
+		}
+
+		const since = isManual ? new Date(0).toISOString() : (staticData.lastPolledAt as string);
+		const outputData: IDataObject[] = [];
+		const columnsCache = new Map<string, Promise<PhacetColumn[]>>();
+		const getChangedAt = (row: IDataObject) =>
+			new Date((row.updatedAt ?? row.createdAt) as string).getTime();
+
+		for (const tableId of tableIds) {
+			// A manual test only needs one sample event, so it reads a single page per table
+			const rows = await getRowsChangedSince.call(this, tableId, since, isManual ? 1 : undefined);
+
+			for (const row of rows) {
+				if (isManual && outputData.some((event) => event.tableId === tableId)) {
+					break;
+				}
+
+				// Rows changed while the tables are read are left to the next poll
+				for (const eventType of getRowEvents(row, since, now)) {
+					if (events.includes(eventType)) {
+						outputData.push({
+							eventType,
+							tableId,
+							rowId: row.id,
+							row,
+							...(eventType === 'row.calculation.failed'
+								? {
+										failure: getCalculationFailure(
+											{},
+											row,
+											await getTableColumns.call(this, tableId, columnsCache),
+										),
+									}
+								: {}),
+						});
+					}
+				}
+			}
+		}
+
+		if (!isManual) {
+			staticData.lastPolledAt = now;
+		}
+
+		if (outputData.length === 0) {
+			return null;
+		}
+
+		if (isManual) {
+			// Rows are read newest first, so each table gave its newest event; keep the newest of these
+			const [sample] = [...outputData].sort(
+				(a, b) => getChangedAt(b.row as IDataObject) - getChangedAt(a.row as IDataObject),
+			);
+			return [this.helpers.returnJsonArray([sample])];
+		}
+
+		return [this.helpers.returnJsonArray(outputData)];
+	}
+}
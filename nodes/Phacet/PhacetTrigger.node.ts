@@ -1,16 +1,211 @@
 import type {
+	IBinaryKeyData,
 	IDataObject,
 	IHookFunctions,
+	ILoadOptionsFunctions,
+	INodeExecutionData,
 	INodePropertyOptions,
 	INodeType,
 	INodeTypeDescription,
 	IWebhookFunctions,
 	IWebhookResponseData,
-	ILoadOptionsFunctions,
 } from 'n8n-workflow';
 
 import { NodeConnectionTypes, NodeOperationError } from 'n8n-workflow';
 
+import type { PhacetColumn } from './GenericFunctions';
+import {
+	downloadCellFile,
+	getCalculationFailure,
+	getColumnName,
+	getPhacets,
+	getRowEvents,
+	getRowFileCells,
+	getRowsChangedSince,
+	getTableColumns,
+	isNotFoundError,
+	phacetApiRequest,
+	simplifyRow,
+	verifyWebhookSignature,
+} from './GenericFunctions';
+
+// Events and tables are single-select in version 1, so accept both shapes
+const toArray = (value: unknown): string[] => {
+	if (Array.isArray(value)) {
+		return value.filter((entry) => !!entry) as string[];
+	}
+	return value ? [value as string] : [];
+};
+
+const isSameSet = (a: string[], b: string[]): boolean =>
+	a.length === b.length && a.every((entry) => b.includes(entry));
+
+// Upper bound on the number of event IDs kept for deduplication
+const MAX_PROCESSED_EVENTS = 1000;
+
+/**
+ * Records an event ID in the node's static data and returns whether it was
+ * already processed within the window. Expired entries are dropped, and only
+ * the most recent ones are kept.
+ */
+const isDuplicateEvent = (
+	staticData: IDataObject,
+	eventId: string,
+	windowMinutes: number,
+	now = Date.now(),
+): boolean => {
+	const cutoff = now - windowMinutes * 60 * 1000;
+	const processedEvents = Object.entries(
+		(staticData.processedEvents as Record<string, number> | undefined) ?? {},
+	).filter(([, processedAt]) => processedAt > cutoff);
+
+	const isDuplicate = processedEvents.some(([id]) => id === eventId);
+
+	if (!isDuplicate) {
+		processedEvents.push([eventId, now]);
+	}
+	staticData.processedEvents = Object.fromEntries(processedEvents.slice(-MAX_PROCESSED_EVENTS));
+
+	return isDuplicate;
+};
+
+type FileDownload = {
+	binaryPropertyName: string;
+	columnIds: string[];
+};
+
+/**
+ * Builds the item emitted for an event. With file downloads enabled, the file
+ * cells of the row are attached as binary properties named `<prefix>_<index>`
+ * and listed in `files`; a failed download is reported in `fileDownloadError`.
+ */
+async function toEventItem(
+	this: IWebhookFunctions,
+	event: IDataObject,
+	tableId: string | undefined,
+	row: IDataObject | undefined,
+	columns: PhacetColumn[],
+	download?: FileDownload,
+): Promise<INodeExecutionData> {
+	if (!download || !tableId || !row) {
+		return { json: event };
+	}
+
+	const binary: IBinaryKeyData = {};
+	const files: IDataObject[] = [];
+
+	try {
+		for (const [index, { cell, column }] of getRowFileCells(row, columns, download.columnIds).entries()) {
+			const propertyName = `${download.binaryPropertyName}_${index}`;
+			binary[propertyName] = await downloadCellFile.call(this, tableId, cell.id);
+			files.push({
+				binaryProperty: propertyName,
+				cellId: cell.id,
+				columnId: column.id,
+				columnName: getColumnName(column),
+			});
+		}
+	} catch (error) {
+		this.logger.warn(`Failed to download the files of row ${row.id} in table ${tableId}: ${(error as Error).message}`);
+		return { json: { ...event, files, fileDownloadError: (error as Error).message }, binary };
+	}
+
+	return { json: { ...event, files }, binary };
+}
+
+const MAX_BACKFILL_ATTEMPTS = 3;
+
+/**
+ * Lists the events missed while the trigger was inactive, in the same shape as
+ * live events. The range is set on activation and cleared once the events have
+ * been fetched, or after MAX_BACKFILL_ATTEMPTS failed deliveries.
+ */
+async function getBackfillEvents(
+	this: IWebhookFunctions,
+	simplify: boolean,
+	download?: FileDownload,
+): Promise<INodeExecutionData[]> {
+	const staticData = this.getWorkflowStaticData('node') as IDataObject & {
+		backfillSince?: string;
+		backfillUntil?: string;
+		backfillAttempts?: number;
+	};
+
+	if (!staticData.backfillSince || !staticData.backfillUntil) {
+		return [];
+	}
+
+	const configuredEvents = toArray(this.getNodeParameter('event', 0));
+	const configuredTableIds = toArray(this.getNodeParameter('tableId', 0));
+	const columnsCache = new Map<string, Promise<PhacetColumn[]>>();
+	const events: INodeExecutionData[] = [];
+
+	try {
+		for (const tableId of configuredTableIds) {
+			let rows: IDataObject[];
+
+			try {
+				rows = await getRowsChangedSince.call(this, tableId, staticData.backfillSince);
+			} catch (error) {
+				// A deleted table will never answer, so it is skipped instead of retried
+				if (!isNotFoundError(error)) {
+					// eslint-disable-next-line @n8n/community-nodes/require-node-api-error
+					throw error;
+				}
+				this.logger.warn(`Skipping backfill of Phacet table ${tableId}: the table was not found`);
+				continue;
+			}
+
+			for (const row of rows) {
+				for (const eventType of getRowEvents(row, staticData.backfillSince, staticData.backfillUntil)) {
+					if (configuredEvents.includes(eventType)) {
+						const columns = await getTableColumns.call(this, tableId, columnsCache);
+						const event: IDataObject = {
+							eventType,
+							tableId,
+							rowId: row.id,
+							row: simplify ? simplifyRow(row, columns) : row,
+							...(eventType === 'row.calculation.failed'
+								? { failure: getCalculationFailure({}, row, columns) }
+								: {}),
+							backfilled: true,
+						};
+						events.push(await toEventItem.call(this, event, tableId, row, columns, download));
+					}
+				}
+			}
+		}
+	} catch (error) {
+		const attempts = (staticData.backfillAttempts ?? 0) + 1;
+
+		if (attempts < MAX_BACKFILL_ATTEMPTS) {
+			// The range is kept so the next delivery tries again
+			this.logger.warn(
+				`Failed to backfill missed Phacet events (attempt ${attempts} of ${MAX_BACKFILL_ATTEMPTS}): ${(error as Error).message}`,
+			);
+			staticData.backfillAttempts = attempts;
+			return [];
+		}
+
+		this.logger.error(
+			`Giving up on backfilling Phacet events missed between ${staticData.backfillSince} and ${staticData.backfillUntil} after ${attempts} attempts: ${(error as Error).message}`,
+		);
+		delete staticData.backfillSince;
+		delete staticData.backfillUntil;
+		delete staticData.backfillAttempts;
+		return [];
+	}
+
+	this.logger.info(
+		`Backfilled ${events.length} Phacet events missed between ${staticData.backfillSince} and ${staticData.backfillUntil}`,
+	);
+	delete staticData.backfillSince;
+	delete staticData.backfillUntil;
+	delete staticData.backfillAttempts;
+
+	return events;
+}
+
 export class PhacetTrigger implements INodeType {
 	description: INodeTypeDescription = {
 		displayName: 'Phacet Trigger',
@@ -18,8 +213,8 @@ export class PhacetTrigger implements INodeType {
 		name: 'phacetTrigger',
 		icon: 'file:phacet.svg',
 		group: ['trigger'],
-		version: 1,
-		subtitle: '={{$parameter["event"]}}',
+		version: [1, 2],
+		subtitle: '={{[].concat($parameter["event"]).join(", ")}}',
 		description: 'Starts the workflow when Phacet events occur',
 		defaults: {
 			name: 'Phacet Trigger',
@@ -46,6 +241,11 @@ export class PhacetTrigger implements INodeType {
 				name: 'event',
 				type: 'options',
 				required: true,
+				displayOptions: {
+					show: {
+						'@version': [1],
+					},
+				},
 				default: 'row.calculation.completed',
 				options: [
 					{
@@ -63,7 +263,6 @@ export class PhacetTrigger implements INodeType {
 						value: 'row.created',
 						description: 'Triggers when a new row is created in a table',
 					},
- 
 				],
 			},
 			{
@@ -71,21 +270,159 @@ export class PhacetTrigger implements INodeType {
 				name: 'tableId',
 				type: 'options',
 				required: true,
+				displayOptions: {
+					show: {
+						'@version': [1],
+					},
+				},
 				default: '',
 				typeOptions: {
 					loadOptionsMethod: 'getPhacets',
 				},
 				description:
 					'Select the table to create a dedicated webhook endpoint for. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Events',
+				name: 'event',
+				type: 'multiOptions',
+				required: true,
 				displayOptions: {
 					show: {
-						event: [
-							'row.calculation.completed',
-							'row.calculation.failed',
-							'row.created',
-						],
+						'@version': [{ _cnd: { gte: 2 } }],
 					},
 				},
+				default: ['row.calculation.completed'],
+				options: [
+					{
+						name: 'Row Calculation Completed',
+						value: 'row.calculation.completed',
+						description: 'Triggers when a row calculation completes successfully in a table',
+					},
+					{
+						name: 'Row Calculation Failed',
+						value: 'row.calculation.failed',
+						description: 'Triggers when a row calculation fails in a table',
+					},
+					{
+						name: 'Row Created',
+						value: 'row.created',
+						description: 'Triggers when a new row is created in a table',
+					},
+				],
+			},
+			{
+				displayName: 'Table Names or IDs',
+				name: 'tableId',
+				type: 'multiOptions',
+				required: true,
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 2 } }],
+					},
+				},
+				default: [],
+				typeOptions: {
+					loadOptionsMethod: 'getPhacets',
+				},
+				description:
+					'Select the tables to create a dedicated webhook endpoint for. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Backfill Missed Events',
+						name: 'backfill',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to emit the rows created or calculated while the workflow was inactive, starting from the last processed event. They are emitted with the first delivery after activation.',
+					},
+					{
+						displayName: 'Binary Property Prefix',
+						name: 'binaryPropertyName',
+						type: 'string',
+						displayOptions: {
+							show: {
+								downloadFiles: [true],
+							},
+						},
+						default: 'data',
+						description:
+							'Prefix of the binary properties the files are written to, followed by the file index (data_0, data_1 and so on)',
+					},
+					{
+						displayName: 'Deduplication Window (Minutes)',
+						name: 'dedupWindow',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 60,
+						description:
+							'How long to remember processed event IDs. A redelivered event seen within this window is acknowledged without starting the workflow again. Set to 0 to disable.',
+					},
+					{
+						displayName: 'Download Files',
+						name: 'downloadFiles',
+						type: 'boolean',
+						default: false,
+						description:
+							"Whether to download the files stored in the row's file cells and attach them to the item as binary data",
+					},
+					{
+						displayName: 'File Column Names or IDs',
+						name: 'fileColumnIds',
+						type: 'multiOptions',
+						typeOptions: {
+							loadOptionsMethod: 'getFileColumns',
+							loadOptionsDependsOn: ['tableId'],
+						},
+						displayOptions: {
+							show: {
+								downloadFiles: [true],
+							},
+						},
+						default: [],
+						description:
+							'File columns to download. Leave empty to download every file cell of the row. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+					},
+					{
+						displayName: 'Max Backfill Window (Hours)',
+						name: 'backfillWindow',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						displayOptions: {
+							show: {
+								backfill: [true],
+							},
+						},
+						default: 24,
+						description: 'How far back missed events are fetched, at most',
+					},
+					{
+						displayName: 'Simplify',
+						name: 'simplify',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to return a simplified version of the response instead of the raw data',
+					},
+					{
+						displayName: 'Verify Signature',
+						name: 'verifySignature',
+						type: 'boolean',
+						default: true,
+						description:
+							'Whether to reject incoming requests whose Svix signature does not match the endpoint secret. Only disable this for local debugging.',
+					},
+				],
 			},
 		],
 	};
@@ -95,32 +432,85 @@ export class PhacetTrigger implements INodeType {
 			async checkExists(this: IHookFunctions): Promise<boolean> {
 				const staticData = this.getWorkflowStaticData('node') as IDataObject & {
 					webhookEndpointId?: string;
+					webhookSecret?: string;
 					webhookUrl?: string;
+					eventTypes?: string[];
+					tableIds?: string[];
+					// Single values stored before events and tables became multi-select
 					eventType?: string;
 					tableId?: string;
 				};
 
 				const webhookUrl = this.getNodeWebhookUrl('default');
-				const eventType = this.getNodeParameter('event', 0) as string;
-				const tableId = this.getNodeParameter('tableId', 0) as string;
-
-				return (
-					!!staticData.webhookEndpointId &&
-					staticData.webhookUrl === webhookUrl &&
-					staticData.eventType === eventType &&
-					staticData.tableId === tableId
-				);
-			},
+				const eventTypes = toArray(this.getNodeParameter('event', 0));
+				const tableIds = toArray(this.getNodeParameter('tableId', 0));
+				const { verifySignature = true } = this.getNodeParameter('options', {}) as {
+					verifySignature?: boolean;
+				};
 
-			async create(this: IHookFunctions): Promise<boolean> {
+				// Endpoints created before signatures were verified have no stored secret,
+				// so they are recreated to get one
+				if (
+					!staticData.webhookEndpointId ||
+					(verifySignature && !staticData.webhookSecret) ||
+					staticData.webhookUrl !== webhookUrl ||
+					!isSameSet(toArray(staticData.eventTypes ?? staticData.eventType), eventTypes) ||
+					!isSameSet(toArray(staticData.tableIds ?? staticData.tableId), tableIds)
+				) {
+					return false;
+				}
+
+				// The endpoint may have been deleted or changed in Phacet since it was created
+				let endpoint: IDataObject;
+
+				try {
+					endpoint = (await phacetApiRequest.call(
+						this,
+						'GET',
+						`/api/v2/webhooks/endpoints/${staticData.webhookEndpointId}`,
+						{
+							headers: {
+								accept: 'application/json',
+							},
+						},
+					)) as IDataObject;
+				} catch (error) {
+					if (isNotFoundError(error)) {
+						this.logger.info(
+							`Phacet webhook endpoint ${staticData.webhookEndpointId} no longer exists and will be recreated`,
+						);
+						delete staticData.webhookEndpointId;
+						return false;
+					}
+
+					// Keep the stored endpoint rather than create a duplicate when the check fails
+					this.logger.warn(
+						`Could not check Phacet webhook endpoint ${staticData.webhookEndpointId}: ${(error as Error).message}`,
+					);
+					return true;
+				}
+
+				const matches =
+					(endpoint.url === undefined || endpoint.url === webhookUrl) &&
+					(endpoint.eventTypes === undefined || isSameSet(toArray(endpoint.eventTypes), eventTypes)) &&
+					(endpoint.tableIds === undefined || isSameSet(toArray(endpoint.tableIds), tableIds));
+
+				if (!matches) {
+					this.logger.info(
+						`Phacet webhook endpoint ${staticData.webhookEndpointId} no longer matches the trigger settings and will be recreated`,
+					);
+				}
 
-				const local = false;
-				const baseUrl = local ? 'http://localhost:3001' : 'https://api.phacetlabs.com';
+				return matches;
+			},
 
+			async create(this: IHookFunctions): Promise<boolean> {
 				const staticData = this.getWorkflowStaticData('node') as IDataObject & {
 					webhookEndpointId?: string;
 					webhookSecret?: string;
 					webhookUrl?: string;
+					eventTypes?: string[];
+					tableIds?: string[];
 					eventType?: string;
 					tableId?: string;
 				};
@@ -147,26 +537,48 @@ export class PhacetTrigger implements INodeType {
 				// 	}
 				// }
 
-				const eventType = this.getNodeParameter('event', 0) as string;
-				const tableId = this.getNodeParameter('tableId', 0) as string;
+				const eventTypes = toArray(this.getNodeParameter('event', 0));
+				const tableIds = toArray(this.getNodeParameter('tableId', 0));
 
-				if (!eventType) {
-					throw new NodeOperationError(this.getNode(), 'Event is required to create a webhook endpoint');
+				if (eventTypes.length === 0) {
+					throw new NodeOperationError(this.getNode(), 'At least one event is required to create a webhook endpoint');
 				}
-				if (!tableId) {
-					throw new NodeOperationError(this.getNode(), 'Table ID is required to create a webhook endpoint');
+				if (tableIds.length === 0) {
+					throw new NodeOperationError(this.getNode(), 'At least one table ID is required to create a webhook endpoint');
+				}
+
+				// Remove the endpoint of a previous configuration so Phacet does not keep
+				// delivering to it
+				if (staticData.webhookEndpointId) {
+					try {
+						await phacetApiRequest.call(
+							this,
+							'DELETE',
+							`/api/v2/webhooks/endpoints/${staticData.webhookEndpointId}`,
+							{
+								headers: {
+									accept: 'application/json',
+								},
+							},
+						);
+					} catch (error) {
+						if (!isNotFoundError(error)) {
+							this.logger.warn(
+								`Failed to delete outdated Svix endpoint ${staticData.webhookEndpointId}: ${(error as Error).message}`,
+							);
+						}
+					}
+					delete staticData.webhookEndpointId;
 				}
 
 				const body = {
 					url: webhookUrl,
-					eventTypes: [eventType],
-					tableIds: [tableId],
+					eventTypes,
+					tableIds,
 					description: `n8n workflow: ${this.getWorkflow().name}`,
 				};
 
-				const response = (await this.helpers.httpRequestWithAuthentication.call(this, 'phacetApi', {
-					method: 'POST',
-					url: `${baseUrl}/api/v2/webhooks/endpoints`,
+				const response = (await phacetApiRequest.call(this, 'POST', '/api/v2/webhooks/endpoints', {
 					body,
 					headers: {
 						accept: 'application/json',
@@ -174,15 +586,71 @@ export class PhacetTrigger implements INodeType {
 					},
 				})) as IDataObject;
 
-				// Response shape may vary; store best-effort identifiers
-				staticData.webhookEndpointId =
-					(response.endpointId as string | undefined) ??
-					(response.id as string | undefined) ??
-					staticData.webhookEndpointId;
-				staticData.webhookSecret = (response.secret as string | undefined) ?? staticData.webhookSecret;
+				// Response shape may vary; accept both identifier fields
+				const endpointId =
+					(response.endpointId as string | undefined) ?? (response.id as string | undefined);
+
+				if (!endpointId) {
+					throw new NodeOperationError(
+						this.getNode(),
+						'Phacet did not return an ID for the new webhook endpoint',
+						{
+							description:
+								'The endpoint may have been created without n8n being able to track it. Check the webhook endpoints in Phacet and remove any duplicate before activating the workflow again.',
+						},
+					);
+				}
+
+				const { verifySignature = true } = this.getNodeParameter('options', {}) as {
+					verifySignature?: boolean;
+				};
+
+				if (verifySignature && !response.secret) {
+					try {
+						await phacetApiRequest.call(this, 'DELETE', `/api/v2/webhooks/endpoints/${endpointId}`, {
+							headers: {
+								accept: 'application/json',
+							},
+						});
+					} catch (error) {
+						this.logger.warn(`Failed to delete Svix endpoint ${endpointId}: ${(error as Error).message}`);
+					}
+
+					throw new NodeOperationError(
+						this.getNode(),
+						'Phacet did not return a signing secret for the new webhook endpoint',
+						{
+							description:
+								'Deliveries cannot be verified without the secret. Try activating the workflow again, or disable the Verify Signature option.',
+						},
+					);
+				}
+
+				staticData.webhookEndpointId = endpointId;
+				staticData.webhookSecret = response.secret as string | undefined;
 				staticData.webhookUrl = webhookUrl;
-				staticData.eventType = eventType;
-				staticData.tableId = tableId;
+				staticData.eventTypes = eventTypes;
+				staticData.tableIds = tableIds;
+				delete staticData.eventType;
+				delete staticData.tableId;
+
+				// Events missed since the last processed one are fetched on the next delivery,
+				// as a webhook trigger can only emit data when it receives a request
+				const { backfill, backfillWindow = 24 } = this.getNodeParameter('options', {}) as {
+					backfill?: boolean;
+					backfillWindow?: number;
+				};
+
+				if (backfill && staticData.lastEventAt) {
+					const now = Date.now();
+					const since = Math.max(
+						new Date(staticData.lastEventAt as string).getTime(),
+						now - backfillWindow * 60 * 60 * 1000,
+					);
+					staticData.backfillSince = new Date(since).toISOString();
+					staticData.backfillUntil = new Date(now).toISOString();
+					delete staticData.backfillAttempts;
+				}
 
 				return true;
 			},
@@ -192,22 +660,25 @@ export class PhacetTrigger implements INodeType {
 					webhookEndpointId?: string;
 					webhookSecret?: string;
 					webhookUrl?: string;
+					eventTypes?: string[];
+					tableIds?: string[];
 					eventType?: string;
 					tableId?: string;
 				};
 
 				if (staticData.webhookEndpointId) {
 					try {
-						const local = false;
-						const baseUrl = local ? 'http://localhost:3001' : 'https://api.phacetlabs.com';
-						await this.helpers.httpRequestWithAuthentication.call(this, 'phacetApi', {
-							method: 'DELETE',
-							url: `${baseUrl}/api/v2/webhooks/endpoints/${staticData.webhookEndpointId}`,
-							headers: {
-								accept: 'application/json',
-								'content-type': 'application/json',
+						await phacetApiRequest.call(
+							this,
+							'DELETE',
+							`/api/v2/webhooks/endpoints/${staticData.webhookEndpointId}`,
+							{
+								headers: {
+									accept: 'application/json',
+									'content-type': 'application/json',
+								},
 							},
-						});
+						);
 					} catch (error) {
 						this.logger.warn(`Failed to delete Svix endpoint ${staticData.webhookEndpointId}: ${error.message}`);
 					}
@@ -216,8 +687,11 @@ export class PhacetTrigger implements INodeType {
 				delete staticData.webhookEndpointId;
 				delete staticData.webhookSecret;
 				delete staticData.webhookUrl;
+				delete staticData.eventTypes;
+				delete staticData.tableIds;
 				delete staticData.eventType;
 				delete staticData.tableId;
+				delete staticData.processedEvents;
 
 				return true;
 			},
@@ -226,59 +700,128 @@ export class PhacetTrigger implements INodeType {
 
 	methods = {
 		loadOptions: {
-			async getPhacets(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
-				const local = false;
-				const baseUrl = local ? 'http://localhost:3001' : 'https://api.phacetlabs.com';
-
-				const projectsResponse = await this.helpers.httpRequestWithAuthentication.call(
-					this,
-					'phacetApi',
-					{
-						method: 'GET',
-						url: `${baseUrl}/api/v2/projects`,
-						headers: {
-							'accept': 'application/json',
-						},
-					},
-				);
-
-				const allTables: INodePropertyOptions[] = [];
-
-				if (Array.isArray(projectsResponse)) {
-					projectsResponse.forEach((project: { id: string; name: string; tables: Array<{ id: string; name: string }> }) => {
-						if (project.tables && Array.isArray(project.tables)) {
-							project.tables.forEach((table) => {
-								allTables.push({
-									name: table.name,
-									value: table.id,
-								});
+			getPhacets,
+
+			async getFileColumns(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const tableIds = toArray(this.getCurrentNodeParameter('tableId'));
+				const fileColumns: INodePropertyOptions[] = [];
+
+				for (const tableId of tableIds) {
+					for (const column of await getTableColumns.call(this, tableId)) {
+						if (column.type === 'file' && !fileColumns.some((option) => option.value === column.id)) {
+							fileColumns.push({
+								name: getColumnName(column),
+								value: column.id,
 							});
 						}
-					});
+					}
 				}
 
-				return allTables.sort((a: INodePropertyOptions, b: INodePropertyOptions) => a.name.localeCompare(b.name));
+				return fileColumns;
 			},
 		},
 	};
 
 	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
 		const body = this.getBodyData() as IDataObject;
-		const configuredEvent = this.getNodeParameter('event', 0) as string;
-		const tableId = this.getNodeParameter('tableId', 0) as string;
+		const options = this.getNodeParameter('options', {}) as {
+			backfill?: boolean;
+			binaryPropertyName?: string;
+			dedupWindow?: number;
+			downloadFiles?: boolean;
+			fileColumnIds?: string[];
+			simplify?: boolean;
+			verifySignature?: boolean;
+		};
 
-		if (body.eventType !== configuredEvent) {
-			return { workflowData: [] };
+		if (options.verifySignature !== false) {
+			const staticData = this.getWorkflowStaticData('node') as IDataObject & {
+				webhookSecret?: string;
+			};
+			const headers = this.getHeaderData();
+			const header = (name: string) => {
+				const value = headers[`svix-${name}`] ?? headers[`webhook-${name}`];
+				return Array.isArray(value) ? value[0] : value;
+			};
+			const rawBody = this.getRequestObject().rawBody?.toString() ?? JSON.stringify(body);
+
+			if (!staticData.webhookSecret) {
+				this.logger.warn(
+					'Rejected Phacet webhook delivery: no signing secret is stored for this trigger. Reactivate the workflow to recreate the endpoint, or disable the Verify Signature option.',
+				);
+				const res = this.getResponseObject();
+				res.status(401).json({ message: 'Webhook signing secret missing' });
+				return { noWebhookResponse: true };
+			}
+
+			const isValid = verifyWebhookSignature(
+				staticData.webhookSecret,
+				{ id: header('id'), timestamp: header('timestamp'), signature: header('signature') },
+				rawBody,
+			);
+
+			if (!isValid) {
+				this.logger.warn('Rejected Phacet webhook delivery with an invalid or expired signature');
+				const res = this.getResponseObject();
+				res.status(401).json({ message: 'Invalid webhook signature' });
+				return { noWebhookResponse: true };
+			}
+		}
+
+		const dedupWindow = options.dedupWindow ?? 60;
+
+		if (
+			body.eventId &&
+			dedupWindow > 0 &&
+			isDuplicateEvent(this.getWorkflowStaticData('node'), String(body.eventId), dedupWindow)
+		) {
+			this.logger.debug(`Ignored redelivered Phacet event ${body.eventId}`);
+			const res = this.getResponseObject();
+			res.status(200).json({ message: 'Event already processed' });
+			return { noWebhookResponse: true };
+		}
+
+		const staticData = this.getWorkflowStaticData('node');
+		const download: FileDownload | undefined = options.downloadFiles
+			? {
+					binaryPropertyName: options.binaryPropertyName || 'data',
+					columnIds: toArray(options.fileColumnIds),
+				}
+			: undefined;
+		const backfillData = options.backfill
+			? await getBackfillEvents.call(this, options.simplify === true, download)
+			: [];
+
+		// Missed events go out with this delivery, even when it is filtered out itself
+		const emit = (items: INodeExecutionData[]): IWebhookResponseData => {
+			if (items.length === 0) {
+				return { workflowData: [] };
+			}
+			staticData.lastEventAt = new Date().toISOString();
+			return { workflowData: [items] };
+		};
+
+		const configuredEvents = toArray(this.getNodeParameter('event', 0));
+		const configuredTableIds = toArray(this.getNodeParameter('tableId', 0));
+
+		if (!configuredEvents.includes(body.eventType as string)) {
+			return emit(backfillData);
 		}
 
 		const eventData = (body.data ?? body) as IDataObject;
 
-		if (tableId && eventData.tableId && eventData.tableId !== tableId) {
-			return { workflowData: [] };
+		if (
+			configuredTableIds.length > 0 &&
+			eventData.tableId &&
+			!configuredTableIds.includes(eventData.tableId as string)
+		) {
+			return emit(backfillData);
 		}
 
-		const local = false;
-		const baseUrl = local ? 'http://localhost:3001' : 'https://api.phacetlabs.com';
+		// Without a tableId in the payload, only a single subscribed table is unambiguous
+		const tableId =
+			(eventData.tableId as string | undefined) ??
+			(configuredTableIds.length === 1 ? configuredTableIds[0] : undefined);
 
 		const outputData: IDataObject = {
 			eventType: body.eventType,
@@ -291,28 +834,48 @@ export class PhacetTrigger implements INodeType {
 		}
 
 		const rowId = eventData.rowId as string | undefined;
+		let rowData: IDataObject | undefined;
 
 		if (rowId && tableId) {
 			try {
-				const rowData = await this.helpers.httpRequestWithAuthentication.call(
+				rowData = (await phacetApiRequest.call(
 					this,
-					'phacetApi',
+					'GET',
+					`/api/v2/tables/${tableId}/rows/${rowId}`,
 					{
-						method: 'GET',
-						url: `${baseUrl}/api/v2/tables/${tableId}/rows/${rowId}`,
 						headers: {
 							'Content-Type': 'application/json',
 						},
 					},
-				);
-				outputData.row = rowData;
-			} catch {
-				this.logger.warn(`Failed to fetch row data for row ${rowId} in table ${tableId}`);
+				)) as IDataObject;
+			} catch (error) {
+				this.logger.warn(`Failed to fetch row data for row ${rowId} in table ${tableId}: ${(error as Error).message}`);
+				outputData.rowFetchError = (error as Error).message;
 			}
 		}
 
-		return {
-			workflowData: [this.helpers.returnJsonArray([outputData])],
-		};
+		// The schema only provides column names, so the event still goes out without it
+		let columns: PhacetColumn[] = [];
+
+		if (tableId && (options.simplify || download || body.eventType === 'row.calculation.failed')) {
+			try {
+				columns = await getTableColumns.call(this, tableId);
+			} catch (error) {
+				this.logger.warn(`Failed to fetch the columns of table ${tableId}: ${(error as Error).message}`);
+			}
+		}
+
+		if (rowData) {
+			outputData.row = options.simplify ? simplifyRow(rowData, columns) : rowData;
+		}
+
+		if (body.eventType === 'row.calculation.failed') {
+			outputData.failure = getCalculationFailure(eventData, rowData, columns);
+		}
+
+		return emit([
+			...backfillData,
+			await toEventItem.call(this, outputData, tableId, rowData, columns, download),
+		]);
 	}
 }